@@ -0,0 +1,78 @@
+import { open } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { PMTiles, TileType } from 'pmtiles';
+import type { RangeResponse, Source } from 'pmtiles';
+
+// TileJSON for a vector basemap, as served at /api/basemap
+export interface BasemapTileJson {
+  tilejson: '3.0.0';
+  tiles: string[];
+  minzoom: number;
+  maxzoom: number;
+  bounds: [number, number, number, number];
+  vector_layers: unknown[];
+  attribution?: string;
+}
+
+export interface Basemap {
+  tileJson(tilesUrl: string): Promise<BasemapTileJson>;
+  // The uncompressed Mapbox Vector Tile, or null outside the archive
+  tile(z: number, x: number, y: number): Promise<Uint8Array | null>;
+}
+
+// Read byte ranges straight from the archive on disk; the file is opened on
+// first use and kept open
+function createFileSource(file: string): Source {
+  let handle: Promise<FileHandle> | null = null;
+
+  return {
+    getKey: () => file,
+
+    async getBytes(offset, length): Promise<RangeResponse> {
+      handle ??= open(file, 'r');
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await (await handle).read(buffer, 0, length, offset);
+      const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + bytesRead) as ArrayBuffer;
+      return { data };
+    },
+  };
+}
+
+// A Protomaps basemap extract (.pmtiles) served tile by tile, so the dev
+// server and the test box can draw the whole map without external network.
+// MBTiles would need SQLite; convert with `pmtiles convert`.
+export function createPmtilesBasemap(file: string): Basemap {
+  const archive = new PMTiles(createFileSource(file));
+
+  return {
+    async tileJson(tilesUrl) {
+      const header = await archive.getHeader();
+      if (header.tileType !== TileType.Mvt) {
+        throw new Error(`${file} holds raster tiles; the basemap needs vector tiles`);
+      }
+      const metadata = (await archive.getMetadata()) as { vector_layers?: unknown[]; attribution?: string };
+
+      return {
+        tilejson: '3.0.0',
+        tiles: [tilesUrl],
+        minzoom: header.minZoom,
+        maxzoom: header.maxZoom,
+        bounds: [header.minLon, header.minLat, header.maxLon, header.maxLat],
+        vector_layers: metadata.vector_layers || [],
+        attribution: metadata.attribution,
+      };
+    },
+
+    async tile(z, x, y) {
+      if (z < 0 || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) return null;
+      const tile = await archive.getZxy(z, x, y);
+      return tile ? new Uint8Array(tile.data) : null;
+    },
+  };
+}
+
+// /{z}/{x}/{y}.mvt -> [z, x, y]
+export function parseTilePath(path: string): [number, number, number] | null {
+  const match = /^\/(\d+)\/(\d+)\/(\d+)\.mvt$/.exec(path);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
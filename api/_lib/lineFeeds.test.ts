@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Train } from '../../src/types/train';
+import { createLineFeeds } from './lineFeeds';
+import { createRequestBudget } from './requestBudget';
+import { tflError } from './tflClient';
+
+function train(lineId: string, timeToStation = 60): Train {
+  return {
+    id: `${lineId}-1`,
+    lineId,
+    lineName: lineId,
+    currentStation: 'Oxford Circus',
+    destination: 'Brixton',
+    timeToStation,
+    direction: 'outbound',
+    vehicleId: '1',
+    naptanId: '940GZZLUOXC',
+    upcomingStops: [
+      { naptanId: '940GZZLUOXC', stationName: 'Oxford Circus', platformName: '', timeToStation },
+      { naptanId: '940GZZLUGPK', stationName: 'Green Park', platformName: '', timeToStation: timeToStation + 120 },
+    ],
+  };
+}
+
+describe('createLineFeeds', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries server errors within the poll', async () => {
+    let attempts = 0;
+    const feeds = createLineFeeds(async (lineId) => {
+      if (++attempts < 3) throw tflError(`/Line/${lineId}/Arrivals`, 503);
+      return [train(lineId)];
+    }, { retryDelay: 0 }, clock);
+
+    const { trains, lines } = await feeds.fetch(['victoria']);
+
+    expect(attempts).toBe(3);
+    expect(trains).toHaveLength(1);
+    expect(lines.victoria).toEqual({ ok: true, status: 'ok', fetchedAt: now, stale: false });
+  });
+
+  it("doesn't retry what retrying won't fix", async () => {
+    const load = vi.fn(async (lineId: string): Promise<Train[]> => {
+      throw tflError(`/Line/${lineId}/Arrivals`, 404);
+    });
+    const feeds = createLineFeeds(load, { retryDelay: 0 }, clock);
+
+    const { lines } = await feeds.fetch(['victoria']);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(lines.victoria.status).toBe('error');
+  });
+
+  it("keeps serving a failing line's last trains, moved on, as stale", async () => {
+    let failing = false;
+    const feeds = createLineFeeds(async (lineId) => {
+      if (failing) throw new Error('socket hang up');
+      return [train(lineId, 60)];
+    }, { retries: 0 }, clock);
+
+    const fetchedAt = now;
+    await feeds.fetch(['victoria']);
+    failing = true;
+    now += 90 * 1000;
+    const { trains, lines } = await feeds.fetch(['victoria']);
+
+    expect(lines.victoria).toEqual({ ok: false, status: 'error', fetchedAt, stale: true });
+    expect(trains).toHaveLength(1);
+    expect(trains[0].currentStation).toBe('Green Park');
+    expect(trains[0].timeToStation).toBe(90);
+
+    now += 10 * 60 * 1000;
+    expect((await feeds.fetch(['victoria'])).trains).toEqual([]);
+  });
+
+  it('opens the circuit after repeated failures and tries again after the cool-down', async () => {
+    const load = vi.fn(async (lineId: string): Promise<Train[]> => {
+      throw tflError(`/Line/${lineId}/Arrivals`, 500);
+    });
+    const feeds = createLineFeeds(load, { retries: 0, failureThreshold: 2, coolDown: 60 * 1000 }, clock);
+
+    await feeds.fetch(['victoria']);
+    now += 10 * 1000;
+    await feeds.fetch(['victoria']);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    now += 10 * 1000;
+    expect((await feeds.fetch(['victoria'])).lines.victoria.status).toBe('circuit-open');
+    expect(load).toHaveBeenCalledTimes(2);
+
+    now += 60 * 1000;
+    load.mockImplementation(async (lineId) => [train(lineId)]);
+    expect((await feeds.fetch(['victoria'])).lines.victoria.status).toBe('ok');
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('spends a short budget on the longest-unfetched lines first', async () => {
+    const budget = createRequestBudget(4, 2, 60 * 1000, clock);
+    const feeds = createLineFeeds(async (lineId) => {
+      if (!budget.take()) throw tflError(`/Line/${lineId}/Arrivals`, 429);
+      return [train(lineId)];
+    }, { retryDelay: 0 }, clock);
+    const lineIds = ['victoria', 'central', 'jubilee'];
+
+    const first = await feeds.fetch(lineIds);
+    expect(first.lines.jubilee).toEqual({ ok: false, status: 'rate-limited', fetchedAt: null, stale: true });
+
+    now += 60 * 1000;
+    const second = await feeds.fetch(lineIds);
+    expect(second.lines.jubilee.status).toBe('ok');
+    expect(Object.values(second.lines).filter((line) => line.ok)).toHaveLength(2);
+    expect(second.trains.map((train) => train.lineId)).toEqual(lineIds);
+  });
+});
@@ -0,0 +1,133 @@
+import type { LineFeed, LineFeedStatus, Train } from '../../src/types/train';
+import { advanceTrains } from '../../src/lib/extrapolation';
+import { errorStatus } from './tflClient';
+
+// Keeps each line's feed on its own, so lines that fail can't empty the map
+// of the others (the loader may still fetch several lines in one request). A failed fetch is retried with backoff; a line failing
+// poll after poll trips a circuit breaker and is left alone for a while.
+// Whatever the reason, a line that couldn't be fetched keeps serving its last
+// trains, moved on by their own predictions, and says so in its LineFeed.
+
+export interface LineFeedOptions {
+  retries: number; // extra attempts per poll
+  retryDelay: number; // ms before the first retry, doubling after
+  failureThreshold: number; // failed polls in a row that open the circuit
+  coolDown: number; // ms the circuit stays open
+  maxStaleAge: number; // ms a line's last trains are served for
+}
+
+export const DEFAULT_LINE_FEED_OPTIONS: LineFeedOptions = {
+  retries: 2,
+  retryDelay: 500,
+  failureThreshold: 3,
+  coolDown: 60 * 1000,
+  maxStaleAge: 5 * 60 * 1000,
+};
+
+export interface LineFeeds {
+  fetch(lineIds: string[]): Promise<{ trains: Train[]; lines: Record<string, LineFeed> }>;
+}
+
+interface LineState {
+  trains: Train[];
+  fetchedAt: number | null;
+  failures: number; // failed polls in a row
+  openUntil: number; // circuit open until then
+}
+
+// Timeouts and server errors are worth another go within the poll; other
+// 4xxs won't change, and a spent budget (429) needs time, not retries
+function isRetryable(status: number): boolean {
+  return status === 0 || status === 408 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createLineFeeds(
+  load: (lineId: string) => Promise<Train[]>,
+  options: Partial<LineFeedOptions> = {},
+  clock: () => number = Date.now
+): LineFeeds {
+  const { retries, retryDelay, failureThreshold, coolDown, maxStaleAge } = { ...DEFAULT_LINE_FEED_OPTIONS, ...options };
+  const states = new Map<string, LineState>();
+
+  function stateOf(lineId: string): LineState {
+    let state = states.get(lineId);
+    if (!state) {
+      state = { trains: [], fetchedAt: null, failures: 0, openUntil: 0 };
+      states.set(lineId, state);
+    }
+    return state;
+  }
+
+  async function loadWithRetry(lineId: string): Promise<Train[]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await load(lineId);
+      } catch (error) {
+        if (attempt >= retries || !isRetryable(errorStatus(error))) throw error;
+        await sleep(retryDelay * 2 ** attempt);
+      }
+    }
+  }
+
+  async function refresh(lineId: string, now: number): Promise<LineFeedStatus> {
+    const state = stateOf(lineId);
+    if (state.openUntil > now) return 'circuit-open';
+
+    try {
+      state.trains = await loadWithRetry(lineId);
+      state.fetchedAt = clock();
+      state.failures = 0;
+      state.openUntil = 0;
+      return 'ok';
+    } catch (error) {
+      if (errorStatus(error) === 429) return 'rate-limited';
+
+      console.error(`Error fetching line ${lineId}:`, error);
+      state.failures++;
+      if (state.failures >= failureThreshold) {
+        // After the cool-down one poll tries again; failing that reopens it
+        console.warn(`${lineId} failed ${state.failures} polls in a row, pausing it for ${coolDown / 1000}s`);
+        state.openUntil = clock() + coolDown;
+      }
+      return 'error';
+    }
+  }
+
+  // The last trains a line was fetched with, as they'd be by now
+  function trainsOf(state: LineState, now: number): Train[] {
+    if (state.fetchedAt === null || now - state.fetchedAt > maxStaleAge) return [];
+    return advanceTrains(state.trains, (now - state.fetchedAt) / 1000);
+  }
+
+  return {
+    async fetch(lineIds) {
+      const now = clock();
+
+      // Requests go out longest-unfetched first, so when the budget only
+      // covers some lines it works round all of them over a few polls
+      const order = [...lineIds].sort(
+        (a, b) => (stateOf(a).fetchedAt ?? -Infinity) - (stateOf(b).fetchedAt ?? -Infinity)
+      );
+      const statuses = new Map(
+        await Promise.all(order.map(async (lineId) => [lineId, await refresh(lineId, now)] as const))
+      );
+
+      const trains: Train[] = [];
+      const lines: Record<string, LineFeed> = {};
+      for (const lineId of lineIds) {
+        const state = stateOf(lineId);
+        const status = statuses.get(lineId)!;
+        const ok = status === 'ok';
+
+        trains.push(...(ok ? state.trains : trainsOf(state, clock())));
+        lines[lineId] = { ok, status, fetchedAt: state.fetchedAt, stale: !ok };
+      }
+
+      return { trains, lines };
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import type { AffectedStretch, LineDisruption, LineStatus, StatusSeverity } from '../../src/types/status';
+import type { TflClient } from './tflClient';
+import { stripStationSuffix } from './trains';
+import { LINE_DISPLAY_NAMES } from '../../src/lib/lines';
+import type { ModeId } from '../../src/lib/modes';
+import { getModeLineIds, parseModes } from '../../src/lib/modes';
+
+interface TflStopPoint {
+  id?: string;
+  naptanId?: string;
+  name?: string;
+  commonName?: string;
+}
+
+interface TflDisruption {
+  description?: string;
+  affectedRoutes?: Array<{
+    routeSectionNaptanEntrySequence?: Array<{ stopPoint?: TflStopPoint }>;
+  }>;
+  affectedStops?: TflStopPoint[];
+}
+
+interface TflLineStatus {
+  statusSeverity: number;
+  statusSeverityDescription: string;
+  reason?: string;
+  disruption?: TflDisruption;
+}
+
+export interface TflLine {
+  id: string;
+  name: string;
+  lineStatuses: TflLineStatus[];
+}
+
+// TfL statusSeverity codes, see /Line/Meta/Severity
+const SEVERITY_BY_CODE: Record<number, StatusSeverity> = {
+  0: 'minor', // Special Service
+  1: 'closed', // Closed
+  2: 'suspended', // Suspended
+  3: 'partial', // Part Suspended
+  4: 'closed', // Planned Closure
+  5: 'partial', // Part Closure
+  6: 'severe', // Severe Delays
+  7: 'minor', // Reduced Service
+  8: 'suspended', // Bus Service
+  9: 'minor', // Minor Delays
+  10: 'good', // Good Service
+  11: 'partial', // Part Closed
+  14: 'minor', // Change of frequency
+  16: 'closed', // Not Running
+  18: 'info', // No Step Free Access
+  19: 'info', // Information
+  20: 'closed', // Service Closed
+};
+
+const SEVERITY_RANK: StatusSeverity[] = ['good', 'info', 'minor', 'severe', 'partial', 'suspended', 'closed'];
+
+function stopId(stop: TflStopPoint | undefined): string {
+  return stop?.id || stop?.naptanId || '';
+}
+
+function stretchBetween(from: TflStopPoint | undefined, to: TflStopPoint | undefined): AffectedStretch | null {
+  const fromStationId = stopId(from);
+  const toStationId = stopId(to);
+  if (!fromStationId || !toStationId || fromStationId === toStationId) return null;
+
+  return {
+    fromStationId,
+    fromStationName: stripStationSuffix(from?.commonName || from?.name),
+    toStationId,
+    toStationName: stripStationSuffix(to?.commonName || to?.name),
+  };
+}
+
+// Affected routes give the stretch end to end; failing that, the first and
+// last affected stops bound it
+function findAffectedStretches(disruption: TflDisruption | undefined): AffectedStretch[] {
+  const stretches: AffectedStretch[] = [];
+  const seen = new Set<string>();
+
+  for (const route of disruption?.affectedRoutes || []) {
+    const sequence = route.routeSectionNaptanEntrySequence || [];
+    const stretch = stretchBetween(sequence[0]?.stopPoint, sequence[sequence.length - 1]?.stopPoint);
+    if (!stretch) continue;
+
+    // Routes come in both directions; keep one of each pair
+    const key = [stretch.fromStationId, stretch.toStationId].sort().join('|');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    stretches.push(stretch);
+  }
+
+  const stops = disruption?.affectedStops || [];
+  if (stretches.length === 0 && stops.length >= 2) {
+    const stretch = stretchBetween(stops[0], stops[stops.length - 1]);
+    if (stretch) stretches.push(stretch);
+  }
+
+  return stretches;
+}
+
+function normalizeLine(line: TflLine): LineStatus {
+  const disruptions: LineDisruption[] = line.lineStatuses
+    .map((status) => ({
+      severity: SEVERITY_BY_CODE[status.statusSeverity] ?? 'minor',
+      severityCode: status.statusSeverity,
+      description: status.statusSeverityDescription,
+      reason: status.reason?.trim() || null,
+      affectedStretches: findAffectedStretches(status.disruption),
+    }))
+    .filter((disruption) => disruption.severity !== 'good');
+
+  const severity = disruptions.reduce<StatusSeverity>(
+    (worst, disruption) =>
+      SEVERITY_RANK.indexOf(disruption.severity) > SEVERITY_RANK.indexOf(worst) ? disruption.severity : worst,
+    'good'
+  );
+
+  return {
+    lineId: line.id,
+    lineName: LINE_DISPLAY_NAMES[line.id] || line.name,
+    severity,
+    disruptions,
+  };
+}
+
+// Fetch and normalise status for every line of the given modes in one request
+export async function fetchLineStatuses(
+  client: TflClient,
+  modes: ModeId[] = parseModes(process.env.TFL_MODES)
+): Promise<LineStatus[]> {
+  const lines = await client.get<TflLine[]>(`/Line/${getModeLineIds(modes).join(',')}/Status`);
+  return lines.map(normalizeLine);
+}
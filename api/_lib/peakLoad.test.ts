@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TrainsPatch, TrainsResponse } from '../../src/types/train';
+import { createTrainAnimator } from '../../src/lib/trainAnimator';
+import peak from '../../scenarios/peak.json';
+import { createSimulatedTflClient, createSimulator, parseScenario } from './simulator';
+import { createTrainsService } from './trains';
+
+const POLLS = 10;
+const POLL_INTERVAL = 10 * 1000;
+
+// Well above what an update takes now (tens of ms) and well below what it
+// took before routes and track snapping were cached (around a second)
+const MEDIAN_UPDATE_BUDGET = 150;
+
+// Trains whose predictions only count down between polls stay out of patches;
+// it's those that move on a station or slip that get sent again
+const MOVED_SHARE_BUDGET = 0.2;
+
+describe('animating the peak scenario', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('places a full network of trains each poll within budget', async () => {
+    let now = Date.UTC(2024, 4, 1, 8);
+    const simulator = createSimulator(parseScenario(peak), () => now);
+    const service = createTrainsService(createSimulatedTflClient(simulator), 0);
+    const animator = createTrainAnimator();
+    const durations: number[] = [];
+
+    for (let poll = 0; poll < POLLS; poll++) {
+      const { trains } = (await service.getTrains()) as TrainsResponse;
+      expect(trains.length).toBeGreaterThan(1000);
+
+      const start = performance.now();
+      animator.update(trains, now);
+      durations.push(performance.now() - start);
+      now += POLL_INTERVAL;
+    }
+
+    // The first polls build the track indexes; it's the polls after that
+    // which run every ten seconds for as long as the map is open
+    const steady = durations.slice(2).sort((a, b) => a - b);
+    const median = steady[Math.floor(steady.length / 2)];
+    expect(median).toBeLessThan(MEDIAN_UPDATE_BUDGET);
+  }, 60 * 1000);
+
+  it('patches each poll with only the trains that moved', async () => {
+    let now = Date.UTC(2024, 4, 1, 8);
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const simulator = createSimulator(parseScenario(peak), () => now);
+    const service = createTrainsService(createSimulatedTflClient(simulator), 0);
+    let { epoch, sequence } = (await service.getTrains()) as TrainsResponse;
+
+    for (let poll = 0; poll < 3; poll++) {
+      now += POLL_INTERVAL;
+      const patch = (await service.getTrains({ epoch, sequence })) as TrainsPatch;
+      expect(patch.since).toBe(sequence);
+
+      const { trains, ...latest } = (await service.getTrains()) as TrainsResponse;
+      ({ epoch, sequence } = latest);
+      expect(patch.moved.length).toBeLessThan(trains.length * MOVED_SHARE_BUDGET);
+    }
+  }, 60 * 1000);
+});
@@ -0,0 +1,80 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { RecordingStore } from '../../src/types/recording';
+import type { TrainsPatch, TrainsResponse } from '../../src/types/train';
+import { isTrainsPatch } from '../../src/lib/trainsDelta';
+import type { TrainsCursor, TrainsService } from './trains';
+
+// One JSON file per snapshot under a folder per UTC day:
+// <dir>/2024-05-01/1714550400000.json
+
+function dayFolder(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+export function createFileRecordingStore(dir: string): RecordingStore {
+  return {
+    async add(snapshot) {
+      const folder = path.join(dir, dayFolder(snapshot.timestamp));
+      await mkdir(folder, { recursive: true });
+      await writeFile(path.join(folder, `${snapshot.timestamp}.json`), JSON.stringify(snapshot));
+    },
+
+    async timestamps() {
+      let days: string[];
+      try {
+        days = await readdir(dir);
+      } catch (error) {
+        if (isMissing(error)) return [];
+        throw error;
+      }
+
+      const timestamps: number[] = [];
+      for (const day of days) {
+        for (const file of await readdir(path.join(dir, day)).catch(() => [])) {
+          const timestamp = Number(path.basename(file, '.json'));
+          if (file.endsWith('.json') && Number.isInteger(timestamp)) timestamps.push(timestamp);
+        }
+      }
+      return timestamps.sort((a, b) => a - b);
+    },
+
+    async get(timestamp) {
+      try {
+        const file = path.join(dir, dayFolder(timestamp), `${timestamp}.json`);
+        return JSON.parse(await readFile(file, 'utf8')) as TrainsResponse;
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+  };
+}
+
+// Wrap a trains service so every new version of the feed it serves is also
+// written to the store. Writes happen in the background; a failing disk
+// never breaks the live feed.
+export function recordTrains(service: TrainsService, store: RecordingStore): TrainsService {
+  let recordedSequence = 0;
+
+  return {
+    async getTrains(since?: TrainsCursor): Promise<TrainsResponse | TrainsPatch> {
+      const response = await service.getTrains(since);
+
+      if (response.sequence > recordedSequence) {
+        recordedSequence = response.sequence;
+        // A patch means the full list is in the service cache, so this is cheap
+        const full = isTrainsPatch(response) ? await service.getTrains() : response;
+        if (!isTrainsPatch(full)) {
+          store.add(full).catch((error) => console.error('Error recording trains:', error));
+        }
+      }
+
+      return response;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { createRequestBudget } from './requestBudget';
+
+describe('createRequestBudget', () => {
+  it('allows a burst, then refills at the rest of the limit', () => {
+    let now = 0;
+    const budget = createRequestBudget(50, 20, 60 * 1000, () => now);
+
+    for (let i = 0; i < 20; i++) expect(budget.take()).toBe(true);
+    expect(budget.take()).toBe(false);
+
+    // 30 more a minute: one every two seconds
+    now = 2000;
+    expect(budget.remaining()).toBe(1);
+    expect(budget.take()).toBe(true);
+    expect(budget.take()).toBe(false);
+  });
+
+  it('never allows more than the limit in any window', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0, max: 5000 }), { minLength: 1, maxLength: 300 }), (gaps) => {
+        let now = 0;
+        const budget = createRequestBudget(50, 20, 60 * 1000, () => now);
+        const taken: number[] = [];
+
+        for (const gap of gaps) {
+          now += gap;
+          if (budget.take()) taken.push(now);
+        }
+
+        for (let i = 0; i < taken.length; i++) {
+          const inWindow = taken.filter((time) => time >= taken[i] && time < taken[i] + 60 * 1000).length;
+          expect(inWindow).toBeLessThanOrEqual(50);
+        }
+      })
+    );
+  });
+});
@@ -0,0 +1,48 @@
+// An allowance of upstream requests. TfL allows 50 requests a minute without
+// an app_key (500 with one); anything past that comes back 429, so requests
+// over budget are refused here instead of being sent.
+//
+// A token bucket rather than a plain count per minute: a count lets one
+// burst spend the whole minute and leaves every line stale until it rolls
+// over. The bucket holds `burst` requests, enough for a full poll, and
+// refills with the rest of the limit spread over the window, so no window
+// ever sees more than `limit`.
+
+export interface RequestBudget {
+  // Spend one request if there's one to spend
+  take(): boolean;
+  remaining(): number;
+}
+
+const WINDOW = 60 * 1000;
+
+export function createRequestBudget(
+  limit: number,
+  burst: number = Math.ceil(limit * 0.4),
+  windowMs = WINDOW,
+  clock: () => number = Date.now
+): RequestBudget {
+  const rate = (limit - burst) / windowMs; // requests per ms
+  let tokens = burst;
+  let refilledAt = clock();
+
+  function refill() {
+    const now = clock();
+    tokens = Math.min(burst, tokens + (now - refilledAt) * rate);
+    refilledAt = now;
+  }
+
+  return {
+    take() {
+      refill();
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+
+    remaining() {
+      refill();
+      return Math.floor(tokens);
+    },
+  };
+}
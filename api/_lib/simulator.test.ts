@@ -0,0 +1,126 @@
+import { readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { errorStatus } from './tflClient';
+import {
+  createSimulatedTflClient,
+  createSimulator,
+  DEFAULT_SCENARIO,
+  loadScenario,
+  parseScenario,
+  type SimulatorScenario,
+} from './simulator';
+
+const SCENARIOS_DIR = fileURLToPath(new URL('../../scenarios/', import.meta.url));
+
+const START = Date.UTC(2024, 4, 1, 8);
+
+const VICTORIA: SimulatorScenario = { ...DEFAULT_SCENARIO, seed: 7, lines: ['victoria'] };
+
+// The simulator at `seconds` into the run, having been polled every `every`
+// seconds on the way there
+function arrivalsAt(scenario: SimulatorScenario, seconds: number, every = seconds) {
+  let now = START;
+  const simulator = createSimulator(scenario, () => now);
+  for (let at = 0; at < seconds; at += every) {
+    now = START + at * 1000;
+    simulator.arrivals('victoria');
+  }
+  now = START + seconds * 1000;
+  return simulator.arrivals('victoria');
+}
+
+describe('createSimulator', () => {
+  it('gives the same feed for the same seed', () => {
+    const first = arrivalsAt(VICTORIA, 600, 10);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(arrivalsAt(VICTORIA, 600, 10)).toEqual(first);
+  });
+
+  it("gives the same feed however often it's polled", () => {
+    expect(arrivalsAt(VICTORIA, 600)).toEqual(arrivalsAt(VICTORIA, 600, 10));
+  });
+
+  it('gives a different feed for a different seed', () => {
+    expect(arrivalsAt({ ...VICTORIA, seed: 8 }, 600)).not.toEqual(arrivalsAt(VICTORIA, 600));
+  });
+
+  it('only runs the lines in its scenario', () => {
+    const simulator = createSimulator(VICTORIA, () => START);
+
+    expect(simulator.arrivals('central')).toEqual([]);
+    expect(simulator.arrivals('victoria').every((arrival) => arrival.lineId === 'victoria')).toBe(true);
+  });
+});
+
+describe('createSimulatedTflClient', () => {
+  it('answers comma-separated lines and 404s what TfL would', async () => {
+    const scenario = { ...DEFAULT_SCENARIO, lines: ['victoria', 'waterloo-city'] };
+    const client = createSimulatedTflClient(createSimulator(scenario, () => START));
+
+    const arrivals = await client.get<Array<{ lineId: string }>>('/Line/victoria,waterloo-city/Arrivals');
+    expect(new Set(arrivals.map((arrival) => arrival.lineId))).toEqual(new Set(['victoria', 'waterloo-city']));
+
+    const error = await client.get('/StopPoint/940GZZLUOXC').catch((error: unknown) => error);
+    expect(errorStatus(error)).toBe(404);
+  });
+
+  it("reports a scenario's events in line status while they last", async () => {
+    let now = START;
+    const scenario = loadScenario(`${SCENARIOS_DIR}suspension.json`);
+    const client = createSimulatedTflClient(createSimulator(scenario, () => now));
+    const district = async () => (await client.get<Array<{ lineStatuses: Array<{ statusSeverity: number }> }>>(
+      '/Line/district/Status'
+    ))[0].lineStatuses.map((status) => status.statusSeverity);
+
+    expect(await district()).toEqual([10]);
+    now += 600 * 1000;
+    expect(await district()).toEqual([3]);
+  });
+});
+
+describe('parseScenario', () => {
+  it('fills in defaults for anything left out', () => {
+    expect(parseScenario({ name: 'quiet', headway: 600 })).toEqual({
+      ...DEFAULT_SCENARIO,
+      name: 'quiet',
+      headway: 600,
+      events: [],
+    });
+  });
+
+  it.each([
+    ['not an object', 'peak', /JSON object/],
+    ['a negative headway', { headway: -1 }, /headway must be a positive number/],
+    ['an unknown line', { lines: ['victoria', 'crossrail-2'] }, /lines must be a list of line ids/],
+    ['a headway for an unknown line', { headways: { 'crossrail-2': 120 } }, /headways must map line ids/],
+    ['a dwell the wrong way round', { dwell: [60, 20] }, /dwell must be \[min, max\]/],
+    ['a delay probability over 1', { delays: { probability: 2, max: 60 } }, /delays must be/],
+    ['events that aren\'t a list', { events: {} }, /events must be a list/],
+  ])('rejects %s', (_, value, message) => {
+    expect(() => parseScenario(value)).toThrow(message);
+  });
+
+  it.each([
+    ['an unknown type', { type: 'flood', lineId: 'victoria', start: 0, end: 60 }, /events\[0\]: unknown type "flood"/],
+    ['an unknown line', { type: 'signal-failure', lineId: 'crossrail-2', stationId: '940GZZLUOXC', start: 0, end: 60 }, /events\[0\]: unknown lineId/],
+    ['an end before its start', { type: 'signal-failure', lineId: 'victoria', stationId: '940GZZLUOXC', start: 60, end: 60 }, /events\[0\]: needs a start and a later end/],
+    ['an unknown station', { type: 'suspension', lineId: 'victoria', from: '940GZZLUOXC', to: 'nowhere', start: 0, end: 60 }, /events\[0\]: unknown station to "nowhere"/],
+  ])('rejects an event with %s', (_, event, message) => {
+    expect(() => parseScenario({ events: [event] })).toThrow(message);
+  });
+});
+
+describe('scenarios', () => {
+  const files = readdirSync(SCENARIOS_DIR).filter((file) => file.endsWith('.json'));
+
+  it('has some', () => {
+    expect(files.length).toBeGreaterThan(0);
+  });
+
+  it.each(files)('parses %s', (file) => {
+    const scenario = loadScenario(`${SCENARIOS_DIR}${file}`);
+    expect(scenario.name).toBe(file.replace(/\.json$/, ''));
+  });
+});
@@ -0,0 +1,521 @@
+import { readFileSync } from 'node:fs';
+import { tflError, type TflClient } from './tflClient';
+import type { TflArrival } from './trains';
+import type { TflLine } from './lineStatus';
+import { LINE_DISPLAY_NAMES, LINE_IDS } from '../../src/lib/lines';
+import { getGeometryLineName, getModeIdForLine } from '../../src/lib/modes';
+import type { ModeId } from '../../src/lib/modes';
+import { getStationById } from '../../src/lib/stationLookup';
+import { findStationRoute, getLineGraph, getStationDistances } from '../../src/lib/trackGeometry';
+import type { LineGraph } from '../../src/lib/trackGeometry';
+
+// A stand-in for the TfL Unified API that runs trains over the line graphs
+// in tfl_lines.json / tfl_stations.json. Everything random is drawn from the
+// scenario's seed, and trains are worked out in the order they leave their
+// terminus, so the same scenario gives the same feed at the same point in
+// its run however often (or rarely) it's polled.
+
+export type SimulatorEvent =
+  // No trains between two stations; services run up to either end of it
+  | { type: 'suspension'; lineId: string; from: string; to: string; start: number; end: number; reason?: string }
+  // Trains can't leave a station, and the ones behind queue up
+  | { type: 'signal-failure'; lineId: string; stationId: string; start: number; end: number; reason?: string };
+
+export interface SimulatorScenario {
+  name: string;
+  seed: number;
+  lines?: string[]; // line ids to run, default all of them
+  headway: number; // seconds between trains leaving each terminus
+  headways?: Record<string, number>; // per line id
+  speed: number; // average m/s between stations
+  dwell: [number, number]; // seconds at each station, min and max
+  delays: { probability: number; max: number }; // chance of a longer stop, and how much longer (s)
+  events: SimulatorEvent[]; // times are seconds into the run
+}
+
+export interface Simulator {
+  scenario: SimulatorScenario;
+  // Seconds into the run
+  elapsed(): number;
+  arrivals(lineId: string): TflArrival[];
+  statuses(lineIds: string[]): TflLine[];
+}
+
+export const DEFAULT_SCENARIO: SimulatorScenario = {
+  name: 'default',
+  seed: 1,
+  headway: 240,
+  speed: 12,
+  dwell: [20, 45],
+  delays: { probability: 0.05, max: 90 },
+  events: [],
+};
+
+const PREDICTION_HORIZON = 1800; // TfL predicts about half an hour ahead
+const TURNAROUND = 180; // seconds from arriving at a terminus to leaving it again
+const SEPARATION = 60; // seconds between one train leaving a station and the next arriving
+const FINISHED_GRACE = 60; // seconds a finished trip is kept before it's dropped
+
+const STATION_SUFFIX: Record<ModeId, string> = {
+  'tube': 'Underground Station',
+  'elizabeth-line': 'Rail Station',
+  'overground': 'Rail Station',
+  'dlr': 'DLR Station',
+  'tram': 'Tram Stop',
+};
+
+interface Route {
+  stationIds: string[];
+  runTimes: number[]; // seconds from stationIds[i - 1] to stationIds[i]
+  direction: 'inbound' | 'outbound';
+  platformName: string;
+}
+
+interface Stop {
+  stationId: string;
+  arrival: number;
+  departure: number;
+}
+
+interface Trip {
+  service: number;
+  vehicleId: string;
+  route: Route;
+  stops: Stop[];
+}
+
+interface LineState {
+  routes: Route[];
+  headway: number;
+  offset: number; // seconds, so lines don't all leave in step
+  nextService: number;
+  trips: Trip[];
+  // Last train over each "from>to" stretch: when it left `to`
+  stretchClear: Map<string, number>;
+  // Vehicles waiting at each terminus, and when they're ready to go again
+  depots: Map<string, Array<{ vehicleId: string; readyAt: number }>>;
+  vehicleCount: number;
+}
+
+// FNV-1a over the parts, then a round of mulberry32: a number in [0, 1)
+// that only depends on its inputs
+function random(...parts: Array<string | number>): number {
+  let h = 0x811c9dc5;
+  for (const char of parts.join('|')) {
+    h ^= char.charCodeAt(0);
+    h = Math.imul(h, 0x01000193);
+  }
+  h = (h + 0x6d2b79f5) | 0;
+  let t = Math.imul(h ^ (h >>> 15), 1 | h);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function stationName(stationId: string, lineId: string): string {
+  const name = getStationById(stationId)?.name || stationId;
+  const mode = getModeIdForLine(lineId);
+  return mode ? `${name} ${STATION_SUFFIX[mode]}` : name;
+}
+
+// Compass bound of a run from one station to another, as TfL names platforms
+function boundBetween(graph: LineGraph, fromId: string, toId: string): string {
+  const [fromLng, fromLat] = graph.nodes.get(fromId) || [0, 0];
+  const [toLng, toLat] = graph.nodes.get(toId) || [0, 0];
+  const dx = (toLng - fromLng) * Math.cos((fromLat * Math.PI) / 180);
+  const dy = toLat - fromLat;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'Eastbound' : 'Westbound';
+  return dy > 0 ? 'Northbound' : 'Southbound';
+}
+
+function buildRoute(graph: LineGraph, lineId: string, fromId: string, toId: string, speed: number,
+  direction: Route['direction']): Route | null {
+  const stationIds = findStationRoute(fromId, toId, lineId);
+  if (!stationIds || stationIds.length < 2) return null;
+
+  const runTimes = stationIds.map((stationId, i) => {
+    if (i === 0) return 0;
+    const edge = graph.adjacency.get(stationIds[i - 1])?.find((candidate) => candidate.to === stationId);
+    return Math.max(30, Math.round((edge?.length || 0) / speed));
+  });
+
+  const platform = direction === 'outbound' ? 1 : 2;
+  return {
+    stationIds,
+    runTimes,
+    direction,
+    platformName: `${boundBetween(graph, fromId, toId)} - Platform ${platform}`,
+  };
+}
+
+// One route each way between every terminus and the terminus furthest from
+// it, which covers the branches of lines like the Northern and District.
+// Lines with no dead ends at all run from an arbitrary station to the one
+// furthest from it.
+function buildRoutes(lineId: string, speed: number): Route[] {
+  const graph = getLineGraph(lineId);
+  if (!graph || graph.nodes.size < 2) return [];
+
+  const stationIds = [...graph.nodes.keys()].sort();
+  let termini = stationIds.filter((id) => (graph.adjacency.get(id) || []).length === 1);
+  if (termini.length === 0) termini = stationIds.slice(0, 1);
+
+  const pairs = new Map<string, [string, string]>();
+  for (const terminus of termini) {
+    const distances = getStationDistances(terminus, lineId);
+    if (!distances) continue;
+    let furthest: string | null = null;
+    for (const [id, distance] of distances) {
+      if (!furthest || distance > (distances.get(furthest) ?? 0)) furthest = id;
+    }
+    if (!furthest || furthest === terminus) continue;
+    const pair = [terminus, furthest].sort() as [string, string];
+    pairs.set(pair.join('|'), pair);
+  }
+
+  return [...pairs.values()].flatMap(([a, b]) => [
+    buildRoute(graph, lineId, a, b, speed, 'outbound'),
+    buildRoute(graph, lineId, b, a, speed, 'inbound'),
+  ]).filter((route): route is Route => route !== null);
+}
+
+// The Overground lines share one network in the geometry, so there's no
+// telling which track is whose; they're left out rather than run over
+// each other's routes
+function hasOwnGeometry(lineId: string): boolean {
+  const geometryName = getGeometryLineName(lineId);
+  return LINE_IDS.filter((id) => getGeometryLineName(id) === geometryName).length === 1;
+}
+
+function activeEvents(scenario: SimulatorScenario, lineId: string, at: number): SimulatorEvent[] {
+  return scenario.events.filter((event) => event.lineId === lineId && event.start <= at && at < event.end);
+}
+
+// Stretches a suspension closes, as "from>to" both ways
+function suspendedStretches(event: Extract<SimulatorEvent, { type: 'suspension' }>): Set<string> {
+  const route = findStationRoute(event.from, event.to, event.lineId) || [];
+  const stretches = new Set<string>();
+  for (let i = 1; i < route.length; i++) {
+    stretches.add(`${route[i - 1]}>${route[i]}`);
+    stretches.add(`${route[i]}>${route[i - 1]}`);
+  }
+  return stretches;
+}
+
+export function createSimulator(
+  scenario: SimulatorScenario = DEFAULT_SCENARIO,
+  clock: () => number = Date.now
+): Simulator {
+  const startedAt = clock();
+  const lines = new Map<string, LineState>();
+  const suspensions = new Map<SimulatorEvent, Set<string>>();
+
+  const elapsed = () => (clock() - startedAt) / 1000;
+
+  function closes(event: SimulatorEvent, stretch: string): boolean {
+    if (event.type !== 'suspension') return false;
+    let stretches = suspensions.get(event);
+    if (!stretches) {
+      stretches = suspendedStretches(event);
+      suspensions.set(event, stretches);
+    }
+    return stretches.has(stretch);
+  }
+
+  function lineState(lineId: string): LineState | null {
+    const existing = lines.get(lineId);
+    if (existing) return existing;
+    if (scenario.lines && !scenario.lines.includes(lineId)) return null;
+    if (!hasOwnGeometry(lineId)) return null;
+
+    const routes = buildRoutes(lineId, scenario.speed);
+    if (routes.length === 0) return null;
+
+    // Start far enough back that the line is already full at time 0
+    const headway = scenario.headways?.[lineId] ?? scenario.headway;
+    const longest = Math.max(...routes.map((route) => route.runTimes.reduce((a, b) => a + b, 0)));
+    const perRoute = headway / routes.length;
+    const state: LineState = {
+      routes,
+      headway: perRoute,
+      offset: random(scenario.seed, lineId) * perRoute,
+      nextService: -Math.ceil((longest * 1.5) / perRoute),
+      trips: [],
+      stretchClear: new Map(),
+      depots: new Map(),
+      vehicleCount: 0,
+    };
+    lines.set(lineId, state);
+    return state;
+  }
+
+  // A vehicle that's turned round at this terminus, else a new one
+  function takeVehicle(state: LineState, stationId: string, at: number): string {
+    const waiting = state.depots.get(stationId) || [];
+    const index = waiting.findIndex((vehicle) => vehicle.readyAt <= at);
+    if (index >= 0) return waiting.splice(index, 1)[0].vehicleId;
+    state.vehicleCount++;
+    return String(100 + state.vehicleCount);
+  }
+
+  // The timetable one service actually runs, given the trains ahead of it
+  function runTrip(lineId: string, state: LineState, service: number): Trip | null {
+    const route = state.routes[((service % state.routes.length) + state.routes.length) % state.routes.length];
+    const leaves = service * state.headway + state.offset;
+    const [minDwell, maxDwell] = scenario.dwell;
+    const stops: Stop[] = [];
+    let time = leaves;
+
+    for (let i = 0; i < route.stationIds.length; i++) {
+      const stationId = route.stationIds[i];
+
+      if (i > 0) {
+        const previous = stops[i - 1];
+        const stretch = `${previous.stationId}>${stationId}`;
+
+        // Can't go on into a suspended stretch: the trip ends here
+        if (activeEvents(scenario, lineId, previous.departure).some((event) => closes(event, stretch))) break;
+
+        // Wait for the train ahead to clear the next platform
+        const clear = state.stretchClear.get(stretch) ?? -Infinity;
+        time = Math.max(previous.departure + route.runTimes[i], clear + SEPARATION);
+      }
+
+      const arrival = time;
+      let dwell = minDwell + random(scenario.seed, lineId, service, i, 'dwell') * (maxDwell - minDwell);
+      if (random(scenario.seed, lineId, service, i, 'delay') < scenario.delays.probability) {
+        dwell += random(scenario.seed, lineId, service, i, 'delay-length') * scenario.delays.max;
+      }
+      let departure = arrival + dwell;
+
+      // Held by a signal failure until it's fixed
+      for (const event of activeEvents(scenario, lineId, departure)) {
+        if (event.type === 'signal-failure' && event.stationId === stationId) {
+          departure = Math.max(departure, event.end);
+        }
+      }
+
+      stops.push({ stationId, arrival: Math.round(arrival), departure: Math.round(departure) });
+      time = departure;
+    }
+
+    if (stops.length < 2) return null;
+
+    // Leaving the last stop means running out of service
+    const last = stops[stops.length - 1];
+    last.departure = last.arrival;
+
+    for (let i = 1; i < stops.length; i++) {
+      state.stretchClear.set(`${stops[i - 1].stationId}>${stops[i].stationId}`, stops[i].departure);
+    }
+
+    const vehicleId = takeVehicle(state, stops[0].stationId, leaves);
+    const depot = state.depots.get(last.stationId) || [];
+    depot.push({ vehicleId, readyAt: last.arrival + TURNAROUND });
+    state.depots.set(last.stationId, depot);
+
+    return { service, vehicleId, route, stops };
+  }
+
+  // Send out every service due to have left by `at` and drop finished ones
+  function advance(lineId: string, state: LineState, at: number) {
+    while (state.nextService * state.headway + state.offset <= at) {
+      const trip = runTrip(lineId, state, state.nextService);
+      if (trip) state.trips.push(trip);
+      state.nextService++;
+    }
+    state.trips = state.trips.filter((trip) => trip.stops[trip.stops.length - 1].arrival > at - FINISHED_GRACE);
+  }
+
+  function tripArrivals(lineId: string, trip: Trip, at: number): TflArrival[] {
+    const destination = trip.stops[trip.stops.length - 1].stationId;
+    return trip.stops
+      .map((stop, i) => ({ stop, i }))
+      .filter(({ stop }) => stop.departure >= at && stop.arrival - at <= PREDICTION_HORIZON)
+      .map(({ stop, i }) => ({
+        id: String(Math.floor(random(lineId, trip.service, i) * 1e9)),
+        vehicleId: trip.vehicleId,
+        naptanId: stop.stationId,
+        stationName: stationName(stop.stationId, lineId),
+        lineId,
+        lineName: LINE_DISPLAY_NAMES[lineId] || lineId,
+        platformName: trip.route.platformName,
+        direction: trip.route.direction,
+        destinationName: stationName(destination, lineId),
+        timeToStation: Math.max(0, stop.arrival - Math.round(at)),
+      }));
+  }
+
+  function lineStatus(lineId: string, at: number): TflLine {
+    const lineStatuses = activeEvents(scenario, lineId, at).map((event) => {
+      if (event.type === 'suspension') {
+        const from = getStationById(event.from)?.name || event.from;
+        const to = getStationById(event.to)?.name || event.to;
+        return {
+          statusSeverity: 3,
+          statusSeverityDescription: 'Part Suspended',
+          reason: event.reason || `No service between ${from} and ${to}.`,
+          disruption: {
+            affectedStops: [event.from, event.to].map((id) => ({ id, commonName: stationName(id, lineId) })),
+          },
+        };
+      }
+      const station = getStationById(event.stationId)?.name || event.stationId;
+      return {
+        statusSeverity: 6,
+        statusSeverityDescription: 'Severe Delays',
+        reason: event.reason || `Severe delays due to an earlier signal failure at ${station}.`,
+      };
+    });
+
+    return {
+      id: lineId,
+      name: LINE_DISPLAY_NAMES[lineId] || lineId,
+      lineStatuses: lineStatuses.length > 0
+        ? lineStatuses
+        : [{ statusSeverity: 10, statusSeverityDescription: 'Good Service' }],
+    };
+  }
+
+  return {
+    scenario,
+    elapsed,
+
+    arrivals(lineId) {
+      const state = lineState(lineId);
+      if (!state) return [];
+      const at = elapsed();
+      advance(lineId, state, at);
+      return state.trips.flatMap((trip) => tripArrivals(lineId, trip, at));
+    },
+
+    statuses(lineIds) {
+      const at = elapsed();
+      return lineIds.filter((lineId) => LINE_IDS.includes(lineId)).map((lineId) => lineStatus(lineId, at));
+    },
+  };
+}
+
+// The simulator's answer to a TfL API path, or undefined for paths it
+// doesn't know
+export function simulatorResponse(simulator: Simulator, path: string): unknown {
+  const match = new URL(path, 'http://localhost').pathname.match(/^\/Line\/([^/]+)\/(Arrivals|Status)$/);
+  if (!match) return undefined;
+
+  const lineIds = decodeURIComponent(match[1]).split(',');
+  return match[2] === 'Arrivals'
+    ? lineIds.flatMap((lineId) => simulator.arrivals(lineId))
+    : simulator.statuses(lineIds);
+}
+
+// A TflClient answering from the simulator instead of the network
+export function createSimulatedTflClient(simulator: Simulator): TflClient {
+  return {
+    baseUrl: `simulator:${simulator.scenario.name}`,
+    async get<T>(path: string): Promise<T> {
+      const response = simulatorResponse(simulator, path);
+      if (response === undefined) {
+        throw tflError(path, 404);
+      }
+      return response as T;
+    },
+  };
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseEvent(value: unknown, index: number): SimulatorEvent {
+  const event = (value || {}) as Record<string, unknown>;
+  const where = `events[${index}]`;
+
+  if (typeof event.lineId !== 'string' || !LINE_IDS.includes(event.lineId)) {
+    throw new Error(`${where}: unknown lineId ${JSON.stringify(event.lineId)}`);
+  }
+  if (!isNumber(event.start) || !isNumber(event.end) || event.end <= event.start) {
+    throw new Error(`${where}: needs a start and a later end, in seconds`);
+  }
+  const reason = typeof event.reason === 'string' ? event.reason : undefined;
+  const base = { lineId: event.lineId, start: event.start, end: event.end, reason };
+
+  const station = (key: string): string => {
+    const id = event[key];
+    if (typeof id !== 'string' || !getStationById(id)) {
+      throw new Error(`${where}: unknown station ${key} ${JSON.stringify(id)}`);
+    }
+    return id;
+  };
+
+  switch (event.type) {
+    case 'suspension':
+      return { type: 'suspension', ...base, from: station('from'), to: station('to') };
+    case 'signal-failure':
+      return { type: 'signal-failure', ...base, stationId: station('stationId') };
+    default:
+      throw new Error(`${where}: unknown type ${JSON.stringify(event.type)}`);
+  }
+}
+
+// Check a scenario read from JSON, filling in defaults for anything left out
+export function parseScenario(value: unknown): SimulatorScenario {
+  if (!value || typeof value !== 'object') throw new Error('Scenario must be a JSON object');
+  const raw = value as Record<string, unknown>;
+  const scenario: SimulatorScenario = { ...DEFAULT_SCENARIO, events: [] };
+
+  if (typeof raw.name === 'string') scenario.name = raw.name;
+  for (const key of ['seed', 'headway', 'speed'] as const) {
+    if (raw[key] === undefined) continue;
+    if (!isNumber(raw[key]) || (key !== 'seed' && raw[key] <= 0)) {
+      throw new Error(`${key} must be a positive number`);
+    }
+    scenario[key] = raw[key];
+  }
+
+  if (raw.lines !== undefined) {
+    if (!Array.isArray(raw.lines) || raw.lines.some((id) => !LINE_IDS.includes(id))) {
+      throw new Error(`lines must be a list of line ids: ${LINE_IDS.join(', ')}`);
+    }
+    scenario.lines = raw.lines;
+  }
+  if (raw.headways !== undefined) {
+    const headways = raw.headways as Record<string, unknown>;
+    if (typeof headways !== 'object' || Object.entries(headways).some(([id, s]) => !LINE_IDS.includes(id) || !isNumber(s) || s <= 0)) {
+      throw new Error('headways must map line ids to positive numbers of seconds');
+    }
+    scenario.headways = headways as Record<string, number>;
+  }
+  if (raw.dwell !== undefined) {
+    const dwell = raw.dwell;
+    if (!Array.isArray(dwell) || dwell.length !== 2 || !dwell.every(isNumber) || dwell[0] < 0 || dwell[1] < dwell[0]) {
+      throw new Error('dwell must be [min, max] seconds');
+    }
+    scenario.dwell = [dwell[0], dwell[1]];
+  }
+  if (raw.delays !== undefined) {
+    const delays = (raw.delays || {}) as Record<string, unknown>;
+    if (!isNumber(delays.probability) || delays.probability < 0 || delays.probability > 1 || !isNumber(delays.max) || delays.max < 0) {
+      throw new Error('delays must be { probability: 0-1, max: seconds }');
+    }
+    scenario.delays = { probability: delays.probability, max: delays.max };
+  }
+  if (raw.events !== undefined) {
+    if (!Array.isArray(raw.events)) throw new Error('events must be a list');
+    scenario.events = raw.events.map(parseEvent);
+  }
+
+  return scenario;
+}
+
+export function loadScenario(file: string): SimulatorScenario {
+  try {
+    return parseScenario(JSON.parse(readFileSync(file, 'utf8')));
+  } catch (error) {
+    throw new Error(`Scenario ${file}: ${error instanceof Error ? error.message : error}`, { cause: error });
+  }
+}
+
+// TFL_SIMULATOR: "1" (or "true") for the default scenario, else the path to
+// a scenario file
+export function scenarioFromEnv(value: string): SimulatorScenario {
+  return value === '1' || value === 'true' ? DEFAULT_SCENARIO : loadScenario(value);
+}
@@ -0,0 +1,70 @@
+// Thin client for the TfL Unified API. The base URL comes from
+// TFL_API_BASE_URL so a local fixture server can stand in for
+// api.tfl.gov.uk during development. TFL_APP_KEY, when set, is sent with
+// every request and raises the rate limit the client budgets for.
+
+import { createRequestBudget, type RequestBudget } from './requestBudget';
+
+const DEFAULT_BASE_URL = 'https://api.tfl.gov.uk';
+
+// Requests a minute TfL allows anonymous and registered callers
+const ANONYMOUS_LIMIT = 50;
+const APP_KEY_LIMIT = 500;
+
+export interface TflClient {
+  baseUrl: string;
+  get<T>(path: string): Promise<T>;
+}
+
+// A failed request. `status` is the HTTP status, 429 when the budget refused
+// to send it, and 0 when no response came back at all.
+export interface TflError extends Error {
+  status: number;
+}
+
+export function tflError(path: string, status: number, reason: string = String(status)): TflError {
+  return Object.assign(new Error(`TfL request ${path} failed: ${reason}`), { status });
+}
+
+export function errorStatus(error: unknown): number {
+  const status = (error as Partial<TflError> | null)?.status;
+  return typeof status === 'number' ? status : 0;
+}
+
+export function createTflClient(
+  baseUrl: string = process.env.TFL_API_BASE_URL || DEFAULT_BASE_URL,
+  appKey: string | undefined = process.env.TFL_APP_KEY,
+  budget: RequestBudget = createRequestBudget(appKey ? APP_KEY_LIMIT : ANONYMOUS_LIMIT)
+): TflClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  function url(path: string): string {
+    if (!appKey) return `${root}${path}`;
+    return `${root}${path}${path.includes('?') ? '&' : '?'}app_key=${encodeURIComponent(appKey)}`;
+  }
+
+  return {
+    baseUrl: root,
+    async get<T>(path: string): Promise<T> {
+      if (!budget.take()) {
+        throw tflError(path, 429, 'request budget spent');
+      }
+
+      const response = await fetch(url(path));
+      if (!response.ok) {
+        throw tflError(path, response.status);
+      }
+      return await response.json() as T;
+    },
+  };
+}
+
+let sharedClient: TflClient | null = null;
+
+// The process's client. Trains, the stream and line status all go through
+// it, so together they stay within TfL's limit instead of each budgeting
+// for the whole of it.
+export function getTflClient(): TflClient {
+  if (!sharedClient) sharedClient = createTflClient();
+  return sharedClient;
+}
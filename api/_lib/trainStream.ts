@@ -0,0 +1,122 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { TrainsResponse } from '../../src/types/train';
+import { isTrainsPatch, reduceTrains } from '../../src/lib/trainsDelta';
+import type { TrainsService } from './trains';
+
+// Fans one upstream poll out to every connected client over Server-Sent
+// Events. New clients get a full `snapshot`, then `delta` events carrying the
+// same sequenced patches /api/trains?since= returns.
+
+type Send = (event: string, data: unknown) => void;
+
+interface Subscriber {
+  send: Send;
+  primed: boolean; // has had its snapshot
+}
+
+export interface TrainStream {
+  subscribe(send: Send): () => void;
+}
+
+const DEFAULT_POLL_INTERVAL = 10000;
+const HEARTBEAT_INTERVAL = 15000;
+
+export function createTrainStream(service: TrainsService, pollInterval = DEFAULT_POLL_INTERVAL): TrainStream {
+  const subscribers = new Set<Subscriber>();
+  let latest: TrainsResponse | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let polling = false;
+
+  async function poll() {
+    timer = null;
+    polling = true;
+
+    try {
+      const update = await service.getTrains(latest ?? undefined);
+      const patch = isTrainsPatch(update) ? update : null;
+      const next = reduceTrains(latest ?? undefined, update);
+
+      // Patches for the sequence we already have carry nothing new. A newer
+      // one can be empty of trains and still move a line's health on.
+      if (next && (!patch || patch.sequence !== patch.since)) {
+        latest = next;
+
+        for (const subscriber of subscribers) {
+          if (!subscriber.primed || !patch) {
+            subscriber.send('snapshot', next);
+            subscriber.primed = true;
+          } else {
+            subscriber.send('delta', patch);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Train stream poll failed:', error);
+    } finally {
+      polling = false;
+    }
+
+    if (subscribers.size > 0) {
+      timer = setTimeout(poll, pollInterval);
+    }
+  }
+
+  return {
+    subscribe(send: Send) {
+      const subscriber: Subscriber = { send, primed: false };
+      subscribers.add(subscriber);
+
+      if (latest) {
+        send('snapshot', latest);
+        subscriber.primed = true;
+      }
+
+      // First subscriber starts the upstream poll
+      if (!timer && !polling) {
+        void poll();
+      }
+
+      return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0 && timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      };
+    },
+  };
+}
+
+// Serve the stream on a Node response (Vite dev server and Vercel alike).
+// maxDuration ends the response early for hosts that cap request time; the
+// browser's EventSource reconnects on its own.
+export function serveTrainStream(
+  stream: TrainStream,
+  req: IncomingMessage,
+  res: ServerResponse,
+  maxDuration?: number
+) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.write('retry: 2000\n\n');
+
+  const unsubscribe = stream.subscribe((event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+  const deadline = maxDuration ? setTimeout(() => res.end(), maxDuration) : null;
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    if (deadline) clearTimeout(deadline);
+    unsubscribe();
+  };
+
+  req.on('close', cleanup);
+  res.on('close', cleanup);
+}
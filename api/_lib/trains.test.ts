@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Train, TrainsPatch, TrainsResponse } from '../../src/types/train';
+import { isTrainsPatch, reduceTrains, trainsCursor } from '../../src/lib/trainsDelta';
+import { createRequestBudget } from './requestBudget';
+import { tflError, type TflClient } from './tflClient';
+import {
+  createTrainsService,
+  dedupeTrains,
+  normalizeArrivals,
+  parseSince,
+  stripStationSuffix,
+  type TflArrival,
+} from './trains';
+
+function arrival(vehicleId: string, stationName: string, naptanId: string, timeToStation: number): TflArrival {
+  return {
+    id: `${vehicleId}-${naptanId}`,
+    vehicleId,
+    naptanId,
+    stationName: `${stationName} Underground Station`,
+    lineId: 'victoria',
+    lineName: 'Victoria',
+    platformName: 'Southbound - Platform 2',
+    direction: 'outbound',
+    destinationName: 'Brixton Underground Station',
+    timeToStation,
+  };
+}
+
+// Vehicle 201 with three predictions, out of order as TfL sends them
+const VICTORIA: TflArrival[] = [
+  arrival('201', 'Green Park', '940GZZLUGPK', 150),
+  arrival('201', 'Oxford Circus', '940GZZLUOXC', 30),
+  arrival('201', 'Victoria', '940GZZLUVIC', 270),
+  arrival('202', 'Brixton', '940GZZLUBXN', 900), // too far off to place
+];
+
+describe('normalizeArrivals', () => {
+  it('makes one train per vehicle from its predictions', () => {
+    const [train, ...rest] = normalizeArrivals('victoria', VICTORIA);
+
+    expect(rest).toEqual([]);
+    expect(train).toMatchObject({
+      id: 'victoria-201',
+      lineName: 'Victoria',
+      currentStation: 'Oxford Circus',
+      destination: 'Brixton',
+      naptanId: '940GZZLUOXC',
+      timeToStation: 30,
+    });
+    expect(train.upcomingStops.map((stop) => stop.stationName)).toEqual(['Oxford Circus', 'Green Park', 'Victoria']);
+  });
+
+  it("keeps apart trains TfL doesn't know the vehicle of", () => {
+    const unknown = (arrival: TflArrival, overrides: Partial<TflArrival> = {}): TflArrival => ({
+      ...arrival,
+      vehicleId: '000',
+      ...overrides,
+    });
+    const trains = normalizeArrivals('victoria', [
+      // Two trains for Brixton from the same platform, both calling at Oxford Circus
+      unknown(arrival('201', 'Oxford Circus', '940GZZLUOXC', 30)),
+      unknown(arrival('201', 'Green Park', '940GZZLUGPK', 150)),
+      unknown(arrival('202', 'Oxford Circus', '940GZZLUOXC', 160)),
+      // And one the other way
+      unknown(arrival('203', 'Warren Street', '940GZZLUWRR', 60), {
+        destinationName: 'Walthamstow Central Underground Station',
+        platformName: 'Northbound - Platform 1',
+        direction: 'inbound',
+      }),
+    ]);
+
+    expect(trains.map((train) => [train.destination, train.upcomingStops.map((stop) => stop.timeToStation)])).toEqual([
+      ['Brixton', [30, 150]],
+      ['Brixton', [160]],
+      ['Walthamstow Central', [60]],
+    ]);
+    expect(new Set(trains.map((train) => train.id)).size).toBe(3);
+    expect(trains.every((train) => train.vehicleId === '000')).toBe(true);
+  });
+});
+
+describe('stripStationSuffix', () => {
+  it.each([
+    ['Bank Underground Station', 'Bank'],
+    ['Bank DLR Station', 'Bank'],
+    ['Stratford (London) Rail Station', 'Stratford (London)'],
+    ['Wimbledon Tram Stop', 'Wimbledon'],
+    [undefined, 'Unknown'],
+  ])('turns %s into %s', (name, stripped) => {
+    expect(stripStationSuffix(name)).toBe(stripped);
+  });
+});
+
+describe('dedupeTrains', () => {
+  it('keeps one train per id, with the latest data', () => {
+    const [train] = normalizeArrivals('victoria', VICTORIA);
+    const later: Train = { ...train, timeToStation: 10 };
+    const other: Train = { ...train, id: 'victoria-203' };
+
+    expect(dedupeTrains([train, other, later])).toEqual([later, other]);
+  });
+});
+
+describe('createTrainsService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function fakeClient(arrivals: Record<string, TflArrival[]>, failing = ['waterloo-city']): TflClient & { requests: string[] } {
+    const requests: string[] = [];
+    return {
+      baseUrl: 'https://tfl.test',
+      requests,
+      async get<T>(path: string) {
+        requests.push(path);
+        const lineIds = path.split('/')[2].split(',');
+        if (lineIds.some((lineId) => failing.includes(lineId))) throw new Error('TfL unavailable');
+        return lineIds.flatMap((lineId) => arrivals[lineId] || []) as T;
+      },
+    };
+  }
+
+  it('fetches lines together, once for concurrent callers, and keeps going past a failing line', async () => {
+    const client = fakeClient({ victoria: VICTORIA });
+    const service = createTrainsService(client, 10000, ['tube'], { retries: 0 });
+
+    const [first, second] = (await Promise.all([service.getTrains(), service.getTrains()])) as TrainsResponse[];
+
+    // Ten lines a request
+    expect(client.requests).toEqual([
+      '/Line/bakerloo,central,circle,district,hammersmith-city,jubilee,metropolitan,northern,piccadilly,victoria/Arrivals',
+      '/Line/waterloo-city/Arrivals',
+    ]);
+    expect(first.trains.map((train) => train.id)).toEqual(['victoria-201']);
+    expect(first.lines?.victoria).toMatchObject({ ok: true, status: 'ok', stale: false });
+    expect(first.lines?.['waterloo-city']).toEqual({ ok: false, status: 'error', fetchedAt: null, stale: true });
+    expect(second).toEqual(first);
+  });
+
+  it('serves the cache within the TTL', async () => {
+    const client = fakeClient({ victoria: VICTORIA });
+    const service = createTrainsService(client, 10000, ['tube'], { retries: 0 });
+
+    const first = (await service.getTrains()) as TrainsResponse;
+    const requests = client.requests.length;
+    const cached = (await service.getTrains()) as TrainsResponse;
+
+    expect(client.requests.length).toBe(requests);
+    expect(cached).toMatchObject({ cached: true, sequence: first.sequence, trains: first.trains });
+  });
+
+  it('refreshes every line every poll within the anonymous budget', async () => {
+    let now = 0;
+    const budget = createRequestBudget(50, 20, 60 * 1000, () => now);
+    const client = fakeClient({ victoria: VICTORIA }, []);
+    const service = createTrainsService({
+      ...client,
+      async get<T>(path: string) {
+        if (!budget.take()) throw tflError(path, 429);
+        return client.get<T>(path);
+      },
+    }, 0, undefined, { retries: 0 });
+
+    // A few minutes of polls, 10 seconds apart
+    for (let poll = 0; poll < 20; poll++) {
+      const { lines } = (await service.getTrains()) as TrainsResponse;
+      expect(Object.values(lines ?? {}).filter((line) => !line.ok)).toEqual([]);
+      now += 10 * 1000;
+    }
+  });
+
+  it('retries a failed batch as one request and opens the circuit in an outage', async () => {
+    let now = 0;
+    const budget = createRequestBudget(50, 20, 60 * 1000, () => now);
+    const client = fakeClient({}, ['bakerloo', 'waterloo-city']);
+    const service = createTrainsService({
+      ...client,
+      async get<T>(path: string) {
+        if (!budget.take()) throw tflError(path, 429);
+        return client.get<T>(path).catch(() => {
+          throw tflError(path, 503);
+        });
+      },
+    }, 0, ['tube'], { retries: 2, retryDelay: 0, failureThreshold: 3 });
+
+    for (let poll = 1; poll <= 3; poll++) {
+      const { lines } = (await service.getTrains()) as TrainsResponse;
+      // Two batches, three attempts each
+      expect(client.requests).toHaveLength(6 * poll);
+      expect(new Set(Object.values(lines ?? {}).map((line) => line.status))).toEqual(new Set(['error']));
+      now += 10 * 1000;
+    }
+
+    const { lines } = (await service.getTrains()) as TrainsResponse;
+    expect(client.requests).toHaveLength(18);
+    expect(new Set(Object.values(lines ?? {}).map((line) => line.status))).toEqual(new Set(['circuit-open']));
+  });
+
+  it("patches against its own sequences but not another instance's", async () => {
+    const client = fakeClient({ victoria: VICTORIA });
+    const service = createTrainsService(client, 0, ['tube'], { retries: 0 });
+    const restarted = createTrainsService(client, 0, ['tube'], { retries: 0 });
+
+    const first = (await service.getTrains()) as TrainsResponse;
+    const cursor = parseSince(trainsCursor(first));
+    expect(cursor).toEqual({ epoch: first.epoch, sequence: first.sequence });
+
+    const patch = await service.getTrains(cursor);
+    expect(isTrainsPatch(patch)).toBe(true);
+    expect(patch.epoch).toBe(first.epoch);
+
+    // Same sequence number, different instance: nothing to patch against
+    const other = await restarted.getTrains(cursor);
+    expect(isTrainsPatch(other)).toBe(false);
+    expect(other.epoch).not.toBe(first.epoch);
+    expect(other.sequence).toBe(first.sequence);
+
+    // Nor does a client apply one instance's patch on top of another's list
+    expect(reduceTrains(other as TrainsResponse, patch as TrainsPatch)).toBe(other);
+    expect(reduceTrains(first, patch as TrainsPatch)?.sequence).toBe(patch.sequence);
+  });
+});
+
+describe('parseSince', () => {
+  it('takes an epoch and a sequence and nothing else', () => {
+    expect(parseSince('3f2a:12')).toEqual({ epoch: '3f2a', sequence: 12 });
+    expect(parseSince(['3f2a:12', '3f2a:13'])).toEqual({ epoch: '3f2a', sequence: 12 });
+    expect(parseSince('12')).toBeUndefined();
+    expect(parseSince(':12')).toBeUndefined();
+    expect(parseSince('3f2a:0')).toBeUndefined();
+    expect(parseSince('3f2a:next')).toBeUndefined();
+    expect(parseSince(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,294 @@
+import { randomUUID } from 'node:crypto';
+import type { LineFeed, Train, TrainsPatch, TrainsResponse } from '../../src/types/train';
+import { LINE_DISPLAY_NAMES } from '../../src/lib/lines';
+import type { ModeId } from '../../src/lib/modes';
+import { getModeLineIds, parseModes } from '../../src/lib/modes';
+import { diffTrains, isEmptyDelta } from '../../src/lib/trainsDelta';
+import { isPlaceholderVehicle } from '../../src/lib/trainIdentity';
+import type { TflClient } from './tflClient';
+import { createLineFeeds, type LineFeedOptions, type LineFeeds } from './lineFeeds';
+
+// Shared by the Vite dev plugin and the Vercel handler so both serve
+// exactly the same /api/trains payload
+
+export interface TflArrival {
+  id: string;
+  vehicleId: string;
+  naptanId: string;
+  stationName: string;
+  lineId: string;
+  lineName: string;
+  platformName: string;
+  direction: string;
+  destinationName: string;
+  timeToStation: number;
+}
+
+interface TrainsSnapshot {
+  trains: Train[];
+  lines: Record<string, LineFeed>;
+  timestamp: number;
+  sequence: number;
+}
+
+// Where a client's copy of the trains list is up to
+export interface TrainsCursor {
+  epoch: string;
+  sequence: number;
+}
+
+export interface TrainsService {
+  // With `since`, returns a patch against that sequence when it's from this
+  // instance and still in history, and the full list otherwise
+  getTrains(since?: TrainsCursor): Promise<TrainsResponse | TrainsPatch>;
+}
+
+const DEFAULT_CACHE_TTL = 10000; // 10 seconds, matches the client poll
+const HISTORY_SIZE = 30; // Snapshots kept for patches, ~5 minutes of polls
+const LINES_PER_REQUEST = 10; // keeps the URL and the response a sensible size
+
+// "Bank Underground Station", "Bank DLR Station", "Stratford (London) Rail
+// Station", "Wimbledon Tram Stop"
+export function stripStationSuffix(name: string | undefined): string {
+  return (name || 'Unknown').replace(/ (Underground Station|DLR Station|Rail Station|Tram Stop)$/, '');
+}
+
+// TfL's stand-ins for a vehicle it can't identify ('000', '0', '') say
+// nothing about which train a prediction is for; those are told apart by
+// where they're going instead
+function vehicleKey(arrival: TflArrival): string {
+  return isPlaceholderVehicle(arrival.vehicleId)
+    ? `unknown-${arrival.destinationName}-${arrival.platformName}-${arrival.direction}`
+    : arrival.vehicleId;
+}
+
+// Split predictions that can't be told apart by vehicle into one timetable
+// per train, the k-th prediction for a station going to the k-th train.
+// A station only the train behind has still to reach can land with the one
+// ahead, but no train ever gets a station twice or another train's stops in
+// place of its own.
+function splitTimetables(predictions: TflArrival[]): TflArrival[][] {
+  const timetables: TflArrival[][] = [];
+  for (const prediction of predictions) {
+    const timetable = timetables.find((stops) => !stops.some((stop) => stop.naptanId === prediction.naptanId));
+    if (timetable) {
+      timetable.push(prediction);
+    } else {
+      timetables.push([prediction]);
+    }
+  }
+  return timetables;
+}
+
+// Turn one line's arrivals into trains, one per vehicle
+export function normalizeArrivals(lineId: string, arrivals: TflArrival[]): Train[] {
+  const trains: Train[] = [];
+
+  // Every prediction for a vehicle is its upcoming timetable
+  const byVehicle = new Map<string, TflArrival[]>();
+  for (const arrival of arrivals) {
+    const key = vehicleKey(arrival);
+    const predictions = byVehicle.get(key);
+    if (predictions) {
+      predictions.push(arrival);
+    } else {
+      byVehicle.set(key, [arrival]);
+    }
+  }
+
+  const timetables: Array<[string, TflArrival[]]> = [];
+  for (const [key, predictions] of byVehicle) {
+    predictions.sort((a, b) => a.timeToStation - b.timeToStation);
+    if (isPlaceholderVehicle(predictions[0].vehicleId)) {
+      splitTimetables(predictions).forEach((timetable, i) => timetables.push([`${key}-${i + 1}`, timetable]));
+    } else {
+      timetables.push([key, predictions]);
+    }
+  }
+
+  for (const [key, predictions] of timetables) {
+    const next = predictions[0];
+
+    // Only include trains arriving at their next station within 5 minutes
+    if (next.timeToStation > 300) continue;
+
+    trains.push({
+      id: `${lineId}-${key}`,
+      lineId: lineId,
+      lineName: LINE_DISPLAY_NAMES[lineId] || next.lineName,
+      currentStation: stripStationSuffix(next.stationName),
+      destination: stripStationSuffix(next.destinationName),
+      timeToStation: next.timeToStation,
+      direction: next.direction || '',
+      vehicleId: next.vehicleId,
+      naptanId: next.naptanId || '',
+      upcomingStops: predictions.map((arrival) => ({
+        naptanId: arrival.naptanId || '',
+        stationName: stripStationSuffix(arrival.stationName),
+        platformName: arrival.platformName || '',
+        timeToStation: arrival.timeToStation,
+      })),
+    });
+  }
+
+  return trains;
+}
+
+interface LineRequest {
+  lineId: string;
+  resolve: (trains: Train[]) => void;
+  reject: (error: unknown) => void;
+}
+
+// Load a line's trains, batching lines asked for together into one
+// /Line/a,b,c/Arrivals request. TfL's limit counts requests, not lines, so a
+// poll of every line costs two or three requests instead of twenty and every
+// line can be fetched every poll. A batch fails or succeeds as one; the line
+// feeds' retries come back together and go out as one request again, so an
+// outage costs a request per batch per attempt rather than one per line.
+function createArrivalsLoader(client: TflClient): (lineId: string) => Promise<Train[]> {
+  let pending: LineRequest[] = [];
+
+  async function fetchBatch(batch: LineRequest[]) {
+    try {
+      const lineIds = batch.map((request) => request.lineId);
+      const arrivals = await client.get<TflArrival[]>(`/Line/${lineIds.join(',')}/Arrivals`);
+      for (const { lineId, resolve } of batch) {
+        resolve(normalizeArrivals(lineId, arrivals.filter((arrival) => arrival.lineId === lineId)));
+      }
+    } catch (error) {
+      for (const { reject } of batch) reject(error);
+    }
+  }
+
+  // Lines asked for together go out together: a poll's lines are asked for
+  // in one tick, and their retries wake from timers set in one tick, so
+  // flushing after the timers have run catches every one of them. Batches
+  // are cut in line order, so retries that wake in another order still go
+  // out in the batches they failed in.
+  function flush() {
+    const requests = pending.sort((a, b) => a.lineId.localeCompare(b.lineId));
+    pending = [];
+    for (let i = 0; i < requests.length; i += LINES_PER_REQUEST) {
+      void fetchBatch(requests.slice(i, i + LINES_PER_REQUEST));
+    }
+  }
+
+  return (lineId) => new Promise<Train[]>((resolve, reject) => {
+    if (pending.length === 0) setImmediate(flush);
+    pending.push({ lineId, resolve, reject });
+  });
+}
+
+// Trains can show up under more than one line's arrivals; keep one per id
+export function dedupeTrains(trains: Train[]): Train[] {
+  return Array.from(new Map(trains.map((t) => [t.id, t])).values());
+}
+
+async function fetchAllLines(feeds: LineFeeds, lineIds: string[]): Promise<Omit<TrainsSnapshot, 'sequence'>> {
+  const timestamp = Date.now();
+
+  console.log('Fetching train data from TfL Unified API...');
+  const { trains: fetched, lines } = await feeds.fetch(lineIds);
+
+  const trains = dedupeTrains(fetched);
+  const degraded = Object.keys(lines).filter((lineId) => !lines[lineId].ok);
+  console.log(`Fetched ${trains.length} trains${degraded.length ? `, stale: ${degraded.join(', ')}` : ''}`);
+
+  return { trains, lines, timestamp };
+}
+
+// Whether any line's health changed, ignoring fetch times
+function linesChanged(previous: Record<string, LineFeed>, next: Record<string, LineFeed>): boolean {
+  const ids = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const id of ids) {
+    const a = previous[id];
+    const b = next[id];
+    if (!a || !b || a.status !== b.status || a.stale !== b.stale) return true;
+  }
+  return false;
+}
+
+// Cached, coalesced access to the trains feed. Within the TTL callers get the
+// cached snapshot; past it, concurrent callers share a single upstream fetch.
+// Each snapshot that differs from the last, in its trains or in the health of
+// its lines, gets the next sequence number. Sequences restart with every
+// instance (a redeploy, another serverless instance), so each instance tags
+// its responses with an epoch of its own.
+// Only lines of the given modes are fetched (TFL_MODES, default all).
+export function createTrainsService(
+  client: TflClient,
+  cacheTtl = DEFAULT_CACHE_TTL,
+  modes: ModeId[] = parseModes(process.env.TFL_MODES),
+  feedOptions: Partial<LineFeedOptions> = {}
+): TrainsService {
+  const lineIds = getModeLineIds(modes);
+  const feeds = createLineFeeds(createArrivalsLoader(client), feedOptions);
+  const epoch = randomUUID();
+  const history = new Map<number, TrainsSnapshot>();
+  let cache: TrainsSnapshot | null = null;
+  let inflight: Promise<TrainsSnapshot> | null = null;
+
+  function record(fetched: Omit<TrainsSnapshot, 'sequence'>): TrainsSnapshot {
+    // Compared with the snapshot clients patch from, so that times drifting a
+    // little each poll still add up to a change
+    const base = cache && history.get(cache.sequence);
+    const changed = !cache || !base
+      || !isEmptyDelta(diffTrains(base.trains, fetched.trains, fetched.timestamp, (fetched.timestamp - base.timestamp) / 1000))
+      || linesChanged(cache.lines, fetched.lines);
+    const snapshot = { ...fetched, sequence: cache ? cache.sequence + (changed ? 1 : 0) : 1 };
+
+    if (changed) history.set(snapshot.sequence, snapshot);
+    for (const sequence of history.keys()) {
+      if (sequence <= snapshot.sequence - HISTORY_SIZE) history.delete(sequence);
+    }
+
+    cache = snapshot;
+    return snapshot;
+  }
+
+  function respond(snapshot: TrainsSnapshot, cached: boolean, since?: TrainsCursor): TrainsResponse | TrainsPatch {
+    const base = since?.epoch === epoch ? history.get(since.sequence) : undefined;
+    if (!base) {
+      return { ...snapshot, epoch, cached, count: snapshot.trains.length };
+    }
+
+    return {
+      ...diffTrains(base.trains, snapshot.trains, snapshot.timestamp, (snapshot.timestamp - base.timestamp) / 1000),
+      sequence: snapshot.sequence,
+      since: base.sequence,
+      epoch,
+      cached,
+      lines: snapshot.lines,
+    };
+  }
+
+  return {
+    async getTrains(since?: TrainsCursor): Promise<TrainsResponse | TrainsPatch> {
+      if (cache && Date.now() - cache.timestamp < cacheTtl) {
+        return respond(cache, true, since);
+      }
+
+      if (!inflight) {
+        inflight = fetchAllLines(feeds, lineIds)
+          .then(record)
+          .finally(() => {
+            inflight = null;
+          });
+      }
+
+      return respond(await inflight, false, since);
+    },
+  };
+}
+
+// Parse the `since` query parameter, "<epoch>:<sequence>", ignoring anything
+// that isn't one
+export function parseSince(value: string | string[] | null | undefined): TrainsCursor | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const split = raw ? raw.lastIndexOf(':') : -1;
+  if (!raw || split <= 0) return undefined;
+
+  const sequence = Number(raw.slice(split + 1));
+  return Number.isInteger(sequence) && sequence > 0 ? { epoch: raw.slice(0, split), sequence } : undefined;
+}
@@ -0,0 +1,22 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getTflClient } from './_lib/tflClient';
+import { fetchLineStatuses } from './_lib/lineStatus';
+
+export default async function handler(_req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate');
+
+  const now = Date.now();
+
+  try {
+    const statuses = await fetchLineStatuses(getTflClient());
+    res.status(200).json({ statuses, timestamp: now });
+  } catch (error) {
+    console.error('Error fetching line status:', error);
+    res.status(502).json({
+      statuses: [],
+      timestamp: now,
+      error: error instanceof Error ? error.message : 'Failed to fetch line status',
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getTflClient } from './_lib/tflClient';
+import { createTrainsService } from './_lib/trains';
+import { createTrainStream, serveTrainStream } from './_lib/trainStream';
+
+// Serverless functions are time-limited, so close before the platform does
+const STREAM_MAX_DURATION = 55000;
+
+const trainStream = createTrainStream(createTrainsService(getTflClient()));
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  serveTrainStream(trainStream, req, res, STREAM_MAX_DURATION);
+}
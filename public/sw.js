@@ -0,0 +1,147 @@
+// Service worker: keeps the app shell and the map tiles already seen (or
+// asked for) so the map still opens without signal. Live data (/api/*) is
+// never cached here; the app keeps its own last-known trains.
+
+const SHELL_CACHE = 'shell-v1';
+const TILE_CACHE = 'tiles-v1';
+const CACHES = [SHELL_CACHE, TILE_CACHE];
+
+// Files outside the build manifest
+const SHELL_FILES = ['/', '/manifest.webmanifest', '/favicon.svg', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// Written by the build: every emitted file, including the bundle that
+// carries the line and station geometry
+const PRECACHE_MANIFEST = '/precache-manifest.json';
+
+const MAX_TILES = 3000;
+// Only CARTO's: the local PMTiles basemap is served by the dev server alone,
+// and this worker only runs in production builds
+const TILE_HOSTS = ['basemaps.cartocdn.com'];
+
+function isTile(url) {
+  return TILE_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+}
+
+// Bring the shell cache in line with the current build: fetch what's
+// missing and drop files from earlier builds
+async function precache() {
+  const cache = await caches.open(SHELL_CACHE);
+  let files = SHELL_FILES;
+  try {
+    const response = await fetch(PRECACHE_MANIFEST, { cache: 'no-cache' });
+    if (response.ok) files = [...SHELL_FILES, ...(await response.json()).map((file) => `/${file}`)];
+  } catch {
+    // Offline or a dev build without a manifest; keep what's cached
+    return;
+  }
+
+  const wanted = new Set(files.map((file) => new URL(file, self.location.origin).href));
+  for (const request of await cache.keys()) {
+    if (!wanted.has(request.url)) await cache.delete(request);
+  }
+  for (const file of files) {
+    if (!(await cache.match(file))) await cache.add(file).catch(() => undefined);
+  }
+}
+
+// Oldest tiles go first once the cache is full
+async function trimTiles() {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  for (const request of keys.slice(0, Math.max(0, keys.length - MAX_TILES))) {
+    await cache.delete(request);
+  }
+}
+
+async function cacheTiles(urls) {
+  const cache = await caches.open(TILE_CACHE);
+  for (const url of urls) {
+    if (await cache.match(url)) continue;
+    try {
+      const response = await fetch(url, { mode: 'cors' });
+      if (response.ok) await cache.put(url, response);
+    } catch {
+      // Lost signal part way through; the rest can wait for next time
+      break;
+    }
+  }
+  await trimTiles();
+}
+
+// Tiles don't change: serve from cache, fetch and keep on a miss
+async function tileFirst(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request.url, response.clone());
+  return response;
+}
+
+// Built files are content-hashed, so a cached copy is always right
+async function shellFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+// Pages come from the network when there is one, so a new build shows up
+// straight away, and from the cached shell when there isn't
+async function pageNetworkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (!CACHES.includes(name)) await caches.delete(name);
+    }
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'precache') {
+    event.waitUntil(precache());
+  } else if (event.data?.type === 'cache-tiles' && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheTiles(event.data.urls));
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (isTile(url)) {
+    event.respondWith(tileFirst(request));
+    return;
+  }
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(pageNetworkFirst(request));
+  } else {
+    event.respondWith(shellFirst(request));
+  }
+});
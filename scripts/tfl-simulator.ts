@@ -0,0 +1,43 @@
+// The TfL simulator as a standalone HTTP server, for running the app (or
+// anything else that talks to the Unified API) against it:
+//
+//   npm run simulator -- scenarios/peak.json --port 4000
+//   TFL_API_BASE_URL=http://localhost:4000 npm run dev
+//
+// Serves /Line/{ids}/Arrivals and /Line/{ids}/Status like api.tfl.gov.uk.
+
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { createSimulator, DEFAULT_SCENARIO, loadScenario, simulatorResponse } from '../api/_lib/simulator';
+
+const DEFAULT_PORT = 4000;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: { port: { type: 'string', short: 'p' } },
+});
+
+const scenario = positionals[0] ? loadScenario(positionals[0]) : DEFAULT_SCENARIO;
+const port = Number(values.port || process.env.PORT) || DEFAULT_PORT;
+const simulator = createSimulator(scenario);
+
+createServer((req, res) => {
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const response = simulatorResponse(simulator, req.url || '/');
+    if (response === undefined) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ message: `No simulated resource at ${req.url}` }));
+      return;
+    }
+    res.end(JSON.stringify(response));
+  } catch (error) {
+    console.error('Simulator error:', error);
+    res.statusCode = 500;
+    res.end(JSON.stringify({ message: error instanceof Error ? error.message : 'Simulator error' }));
+  }
+}).listen(port, () => {
+  console.log(`Simulating TfL (${scenario.name}, seed ${scenario.seed}) on http://localhost:${port}`);
+});
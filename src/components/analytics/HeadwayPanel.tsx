@@ -0,0 +1,141 @@
+import { getLineColor } from '../../lib/lineColors';
+import type { HeadwayGroup, HeadwayOptions, HeadwayStatus } from '../../lib/headways';
+
+interface HeadwayPanelProps {
+  groups: HeadwayGroup[];
+  options: HeadwayOptions;
+  onOptionsChange: (options: HeadwayOptions) => void;
+  onSelectTrain: (trackingId: string) => void;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 48;
+const BAR_GAP = 2;
+
+const STATUS_COLORS: Record<Exclude<HeadwayStatus, 'ok'>, string> = {
+  bunched: '#ef4444',
+  gap: '#f59e0b',
+};
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+// One bar per headway, front of the line on the left, with the bunching and
+// gap thresholds as dashed guides
+function HeadwayChart({ group, options, onSelectTrain }: {
+  group: HeadwayGroup;
+  options: HeadwayOptions;
+  onSelectTrain: (trackingId: string) => void;
+}) {
+  const scale = Math.max(options.gapSeconds * 1.1, ...group.headways.map((h) => h.seconds));
+  const barWidth = Math.min(24, CHART_WIDTH / group.headways.length - BAR_GAP);
+  const y = (seconds: number) => CHART_HEIGHT - (seconds / scale) * CHART_HEIGHT;
+  const color = getLineColor(group.lineName);
+
+  return (
+    <svg width={CHART_WIDTH} height={CHART_HEIGHT} className="block">
+      {group.headways.map((headway, i) => (
+        <rect
+          key={headway.trackingId}
+          x={i * (barWidth + BAR_GAP)}
+          y={y(headway.seconds)}
+          width={barWidth}
+          height={Math.max(1, CHART_HEIGHT - y(headway.seconds))}
+          fill={headway.status === 'ok' ? color : STATUS_COLORS[headway.status]}
+          className="cursor-pointer"
+          onClick={() => onSelectTrain(headway.trackingId)}
+        >
+          <title>{`${formatSeconds(headway.seconds)} behind the train ahead at ${headway.stationName}`}</title>
+        </rect>
+      ))}
+      {[options.bunchingSeconds, options.gapSeconds].map((threshold) => (
+        <line
+          key={threshold}
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={y(threshold)}
+          y2={y(threshold)}
+          stroke="#9ca3af"
+          strokeDasharray="3 3"
+          strokeWidth={1}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function HeadwayPanel({ groups, options, onOptionsChange, onSelectTrain, onClose }: HeadwayPanelProps) {
+  const bunched = groups.reduce((sum, group) => sum + group.bunched, 0);
+  const gaps = groups.reduce((sum, group) => sum + group.gaps, 0);
+
+  return (
+    <div className="absolute top-20 right-4 w-80 max-h-[75vh] overflow-y-auto bg-black/85 text-white rounded shadow-lg">
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-700">
+        <div>
+          <h2 className="font-semibold">Headways</h2>
+          <p className="text-xs text-gray-400">
+            {bunched} bunched, {gaps} gaps
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-lg leading-none"
+          aria-label="Close headways panel"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex gap-4 px-4 py-2 text-xs text-gray-300 border-b border-gray-700">
+        <label className="flex items-center gap-1">
+          Bunched under
+          <input
+            type="number"
+            min={10}
+            step={10}
+            value={options.bunchingSeconds}
+            onChange={(e) => onOptionsChange({ ...options, bunchingSeconds: Number(e.target.value) || 0 })}
+            className="w-12 bg-black border border-gray-600 rounded px-1"
+          />
+          s
+        </label>
+        <label className="flex items-center gap-1">
+          Gap over
+          <input
+            type="number"
+            min={1}
+            value={options.gapSeconds / 60}
+            onChange={(e) => onOptionsChange({ ...options, gapSeconds: (Number(e.target.value) || 0) * 60 })}
+            className="w-10 bg-black border border-gray-600 rounded px-1"
+          />
+          min
+        </label>
+      </div>
+
+      {groups.length === 0 && <p className="px-4 py-3 text-sm text-gray-400">No trains to compare yet</p>}
+
+      {groups.map((group) => (
+        <div key={`${group.lineId}|${group.direction}|${group.branch}`} className="px-4 py-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: getLineColor(group.lineName) }} />
+            <span className="font-medium">{group.lineName}</span>
+            <span className="text-xs text-gray-400 truncate">
+              {group.direction} to {group.branch}
+            </span>
+          </div>
+          <div className="flex gap-3 text-xs text-gray-400 my-1">
+            <span>avg {formatSeconds(group.meanSeconds)}</span>
+            {group.bunched > 0 && <span className="text-red-400">{group.bunched} bunched</span>}
+            {group.gaps > 0 && <span className="text-amber-400">{group.gaps} gaps</span>}
+          </div>
+          <HeadwayChart group={group} options={options} onSelectTrain={onSelectTrain} />
+        </div>
+      ))}
+    </div>
+  );
+}
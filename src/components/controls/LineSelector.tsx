@@ -0,0 +1,95 @@
+import { getLineColor, UNDERGROUND_LINES } from '../../lib/lineColors';
+import { MODES } from '../../lib/modes';
+import type { ModeId } from '../../lib/modes';
+import type { LineSelection } from '../../hooks/useLineSelection';
+import { describeDegradedLine, type DegradedLine } from '../../lib/lineFeeds';
+
+interface LineSelectorProps {
+  selection: LineSelection;
+  onToggleLine: (lineName: string) => void;
+  onFocusChange: (focus: boolean) => void;
+  onToggleMode: (mode: ModeId) => void;
+  onClear: () => void;
+  degradedLines?: DegradedLine[];
+}
+
+export function LineSelector({
+  selection,
+  onToggleLine,
+  onFocusChange,
+  onToggleMode,
+  onClear,
+  degradedLines = [],
+}: LineSelectorProps) {
+  const allShown = selection.lines.length === 0;
+
+  return (
+    <div className="bg-black/70 text-white px-3 py-2 rounded text-sm w-72">
+      <div className="text-xs text-gray-400 mb-2">Modes</div>
+      <div className="flex flex-wrap gap-1 mb-3">
+        {MODES.map((mode) => {
+          const shown = selection.modes.includes(mode.id);
+          return (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => onToggleMode(mode.id)}
+              aria-pressed={shown}
+              className={`px-2 py-0.5 rounded text-xs border border-gray-500 ${shown ? 'opacity-100' : 'opacity-40'}`}
+            >
+              {mode.label}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-400">Lines</span>
+        <div className="flex items-center gap-3 text-xs">
+          <label className={`flex items-center gap-1 ${allShown ? 'text-gray-500' : 'cursor-pointer'}`}>
+            <input
+              type="checkbox"
+              checked={selection.focus}
+              disabled={allShown}
+              onChange={(e) => onFocusChange(e.target.checked)}
+            />
+            Focus
+          </label>
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={allShown}
+            className="text-sky-400 disabled:text-gray-500"
+          >
+            All
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {UNDERGROUND_LINES.map((lineName) => {
+          const active = allShown || selection.lines.includes(lineName);
+          const degraded = degradedLines.find((line) => line.lineName === lineName);
+          return (
+            <button
+              key={lineName}
+              type="button"
+              onClick={() => onToggleLine(lineName)}
+              aria-pressed={selection.lines.includes(lineName)}
+              title={degraded ? describeDegradedLine(degraded) : undefined}
+              className={`px-2 py-0.5 rounded text-xs border ${active ? 'opacity-100' : 'opacity-40'} ${
+                degraded ? 'border-dashed' : ''
+              }`}
+              style={{ borderColor: getLineColor(lineName) }}
+            >
+              <span
+                className="inline-block w-2 h-2 rounded-full mr-1 align-middle"
+                style={{ backgroundColor: getLineColor(lineName) }}
+              />
+              {lineName}
+              {degraded && <span className="ml-1 text-amber-400">!</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
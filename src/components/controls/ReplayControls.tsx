@@ -0,0 +1,123 @@
+import { REPLAY_SPEEDS } from '../../hooks/useReplay';
+import type { ReplaySourceId } from '../../hooks/useReplay';
+
+interface ReplayControlsProps {
+  active: boolean;
+  start: number;
+  end: number;
+  time: number;
+  playing: boolean;
+  speed: number;
+  error: string | null;
+  recording: boolean;
+  recordedCount: number;
+  onOpen: (source: ReplaySourceId) => void;
+  onClose: () => void;
+  onTogglePlaying: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (time: number) => void;
+  onRecordingChange: (recording: boolean) => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+export function ReplayControls({
+  active,
+  start,
+  end,
+  time,
+  playing,
+  speed,
+  error,
+  recording,
+  recordedCount,
+  onOpen,
+  onClose,
+  onTogglePlaying,
+  onSpeedChange,
+  onSeek,
+  onRecordingChange,
+}: ReplayControlsProps) {
+  if (!active) {
+    return (
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/70 text-white px-3 py-2 rounded text-sm">
+        <div className="flex items-center gap-3 text-xs">
+          <button
+            type="button"
+            onClick={() => onRecordingChange(!recording)}
+            aria-pressed={recording}
+            className="flex items-center gap-1"
+          >
+            <span className={`w-2 h-2 rounded-full ${recording ? 'bg-red-500 animate-pulse' : 'bg-gray-500'}`} />
+            {recording ? `Recording (${recordedCount})` : 'Record'}
+          </button>
+          <div className="w-px h-4 bg-gray-600" />
+          <span className="text-gray-400">Replay</span>
+          <button type="button" onClick={() => onOpen('browser')} className="text-sky-400">
+            This browser
+          </button>
+          <button type="button" onClick={() => onOpen('server')} className="text-sky-400">
+            Server
+          </button>
+        </div>
+        {error && <div className="text-xs text-amber-400 mt-1">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[32rem] max-w-[90vw] bg-black/80 text-white px-3 py-2 rounded text-sm">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={onTogglePlaying}
+          className="w-8 text-lg leading-none"
+          aria-label={playing ? 'Pause replay' : 'Play replay'}
+        >
+          {playing ? '❚❚' : '▶'}
+        </button>
+        <input
+          type="range"
+          min={start}
+          max={end}
+          step={1000}
+          value={time}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1"
+          aria-label="Replay time"
+        />
+        <div className="text-right font-mono text-xs">
+          <div>{formatTime(time)}</div>
+          <div className="text-gray-400">{formatDate(time)}</div>
+        </div>
+      </div>
+      <div className="flex items-center justify-between mt-1 text-xs">
+        <label className="flex items-center gap-1 text-gray-400">
+          Speed
+          <select
+            value={speed}
+            onChange={(e) => onSpeedChange(Number(e.target.value))}
+            className="bg-black text-white border border-gray-600 rounded"
+          >
+            {REPLAY_SPEEDS.map((value) => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </select>
+        </label>
+        <span className="text-gray-400">
+          {formatTime(start)} – {formatTime(end)}
+        </span>
+        <button type="button" onClick={onClose} className="text-sky-400">
+          Back to live
+        </button>
+      </div>
+      {error && <div className="text-xs text-amber-400 mt-1">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { getLineColor } from '../../lib/lineColors';
+import { searchStations } from '../../lib/stationSearch';
+
+interface StationSearchProps {
+  onSelect: (stationId: string) => void;
+}
+
+export function StationSearch({ onSelect }: StationSearchProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [open, setOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(() => searchStations(query), [query]);
+
+  // "/" jumps to the search box from anywhere but another input
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== '/' || e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const choose = (index: number) => {
+    const result = results[index];
+    if (!result) return;
+    onSelect(result.station.id);
+    setQuery('');
+    setOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const onKeyDown = (e: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index) => (index + step + results.length) % results.length);
+      setOpen(true);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(activeIndex);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+      setOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  const showResults = open && query.trim() !== '';
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder="Search stations  /"
+        className="w-full bg-black/70 text-white text-sm px-3 py-2 rounded placeholder-gray-500 outline-none focus:ring-1 focus:ring-sky-400"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="station-search-results"
+        aria-activedescendant={showResults && results[activeIndex] ? `station-search-${activeIndex}` : undefined}
+        aria-label="Search stations"
+      />
+      {showResults && (
+        <ul
+          id="station-search-results"
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-black/90 text-white rounded shadow-lg text-sm overflow-hidden"
+        >
+          {results.length === 0 && <li className="px-3 py-2 text-gray-400">No stations found</li>}
+          {results.map((result, i) => (
+            <li
+              key={result.station.id}
+              id={`station-search-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Choose before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(i);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`flex items-center justify-between gap-2 px-3 py-1.5 cursor-pointer ${
+                i === activeIndex ? 'bg-white/15' : ''
+              }`}
+            >
+              <span className="truncate">
+                {result.station.name}
+                {result.alias && <span className="text-gray-500 text-xs"> ({result.alias})</span>}
+              </span>
+              <span className="flex gap-0.5 shrink-0">
+                {result.lines.map((lineName) => (
+                  <span
+                    key={lineName}
+                    className="w-2 h-2 rounded-sm"
+                    style={{ backgroundColor: getLineColor(lineName) }}
+                    title={lineName}
+                  />
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
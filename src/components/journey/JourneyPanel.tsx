@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { getLineColor } from '../../lib/lineColors';
+import { getStationById } from '../../lib/stationLookup';
+import type { JourneyOption, JourneyRoute } from '../../lib/journeyPlanner';
+
+interface JourneyPanelProps {
+  fromId: string | null;
+  toId: string | null;
+  route: JourneyRoute | null;
+  options: JourneyOption[];
+  clock?: () => number;
+  onShowTrain: (trackingId: string) => void;
+  onSwap: () => void;
+  onClear: () => void;
+}
+
+function stationName(id: string | null): string | null {
+  return id ? getStationById(id)?.name || id : null;
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatWait(seconds: number): string {
+  if (seconds <= 30) return 'now';
+  return `in ${Math.round(seconds / 60)} min`;
+}
+
+export function JourneyPanel({
+  fromId,
+  toId,
+  route,
+  options,
+  clock = Date.now,
+  onShowTrain,
+  onSwap,
+  onClear,
+}: JourneyPanelProps) {
+  // Tick so "leave in" stays current between refreshes
+  const [now, setNow] = useState(clock);
+  useEffect(() => {
+    const interval = setInterval(() => setNow(clock()), 1000);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  return (
+    <div className="absolute bottom-4 right-4 w-80 max-h-[60vh] overflow-y-auto bg-black/85 text-white rounded shadow-lg">
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-700">
+        <div className="text-sm min-w-0">
+          <div className="truncate">
+            <span className="text-gray-400 text-xs mr-1">From</span>
+            {stationName(fromId) || <span className="text-gray-500">pick a station on the map</span>}
+          </div>
+          <div className="truncate">
+            <span className="text-gray-400 text-xs mr-1">To</span>
+            {stationName(toId) || <span className="text-gray-500">pick a station on the map</span>}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            type="button"
+            onClick={onSwap}
+            className="text-gray-400 hover:text-white"
+            aria-label="Swap origin and destination"
+          >
+            ⇅
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-gray-400 hover:text-white text-lg leading-none"
+            aria-label="Close journey planner"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      {fromId && toId && !route && (
+        <p className="px-4 py-3 text-sm text-gray-400">No route between these stations</p>
+      )}
+
+      {options.map((option, i) => (
+        <div key={i} className="px-4 py-2 border-b border-gray-800 last:border-b-0">
+          <div className="flex items-baseline justify-between text-sm">
+            <span className="font-medium">Leave {formatWait((option.departAt - now) / 1000)}</span>
+            <span className="text-gray-300">
+              arrive {formatClock(option.arriveAt)}
+              <span className="text-gray-500"> · {Math.round((option.arriveAt - now) / 60000)} min</span>
+            </span>
+          </div>
+          {option.legs.map((boarded, legIdx) => (
+            <div key={legIdx} className="flex items-center gap-2 mt-1 text-xs">
+              <span
+                className="w-1 self-stretch rounded-sm shrink-0"
+                style={{ backgroundColor: getLineColor(boarded.lineName) }}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="truncate">
+                  {boarded.lineName}
+                  {boarded.destination && <span className="text-gray-400"> to {boarded.destination}</span>}
+                </div>
+                <div className="text-gray-400 truncate">
+                  {stationName(boarded.leg.stationIds[0])} {formatClock(boarded.departAt)} →{' '}
+                  {stationName(boarded.leg.stationIds[boarded.leg.stationIds.length - 1])} {formatClock(boarded.arriveAt)}
+                </div>
+              </div>
+              {boarded.trackingId ? (
+                <button
+                  type="button"
+                  onClick={() => onShowTrain(boarded.trackingId!)}
+                  className="text-sky-400 hover:text-sky-300 shrink-0"
+                >
+                  show on map
+                </button>
+              ) : (
+                <span className="text-gray-500 shrink-0">typical</span>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
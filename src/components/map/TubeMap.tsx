@@ -1,92 +1,200 @@
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useMemo, useState } from 'react';
 import maplibregl from 'maplibre-gl';
-import { isUndergroundLine, LINE_COLORS } from '../../lib/lineColors';
+import '@fontsource/open-sans/latin-400.css';
+import { getLineColor, LINE_COLORS, LINE_OFFSETS } from '../../lib/lineColors';
 import { useTrains } from '../../hooks/useTrains';
 import { useTrainPositions } from '../../hooks/useTrainPositions';
 import linesData from '../../data/tfl_lines.json';
 import stationsData from '../../data/tfl_stations.json';
 import type { FeatureCollection, Feature, LineString, Point } from 'geojson';
-import type { TrainWithPosition } from '../../types/train';
-
-// Filter to only Underground lines
-function filterUndergroundLines(data: FeatureCollection): FeatureCollection<LineString> {
+import { getStationById } from '../../lib/stationLookup';
+import { StationPanel } from '../station/StationPanel';
+import { DisruptionLegend } from '../status/DisruptionLegend';
+import { useLineStatus } from '../../hooks/useLineStatus';
+import { disruptionsToGeoJSON } from '../../lib/disruptions';
+import { FOCUS_DIM, useLineSelection } from '../../hooks/useLineSelection';
+import { LineSelector } from '../controls/LineSelector';
+import { getLinesBounds } from '../../lib/trackGeometry';
+import { useTrainFollow } from '../../hooks/useTrainFollow';
+import { useRecorder } from '../../hooks/useRecorder';
+import { useReplay } from '../../hooks/useReplay';
+import { ReplayControls } from '../controls/ReplayControls';
+import { useHeadways } from '../../hooks/useHeadways';
+import { getBunchedPairs } from '../../lib/headways';
+import { createTrainsLayer } from './trainsLayer';
+import type { TrainsLayer } from './trainsLayer';
+import { HeadwayPanel } from '../analytics/HeadwayPanel';
+import { useJourneyPlanner } from '../../hooks/useJourneyPlanner';
+import { JourneyPanel } from '../journey/JourneyPanel';
+import type { JourneyRoute } from '../../lib/journeyPlanner';
+import { useLocateMe } from '../../hooks/useLocateMe';
+import { NearbyPanel } from '../station/NearbyPanel';
+import { StationSearch } from '../controls/StationSearch';
+import { useExtrapolatedTrains } from '../../hooks/useExtrapolatedTrains';
+import { describeDegradedLine, getDegradedLines } from '../../lib/lineFeeds';
+import { cacheVisibleTiles } from '../../lib/serviceWorker';
+import { applyBasemap, fetchBasemap, THEME_COLORS } from '../../lib/basemap';
+import type { Basemap } from '../../lib/basemap';
+import { useTheme } from '../../hooks/useTheme';
+import { getGeometryLineNames, getModeIdForLine, MODES } from '../../lib/modes';
+import type { ModeId } from '../../lib/modes';
+
+// Filter to lines of registered modes, one feature per line so shared track
+// can be styled and filtered per line
+function filterRegisteredLines(data: FeatureCollection): FeatureCollection<LineString> {
+  const registered = getGeometryLineNames();
   return {
     type: 'FeatureCollection',
-    features: data.features.filter((feature: Feature) => {
-      const lines = feature.properties?.lines || [];
-      return lines.some((line: { name: string }) => isUndergroundLine(line.name));
-    }).map((feature: Feature) => ({
-      ...feature,
-      properties: {
-        ...feature.properties,
-        lineName: feature.properties?.lines?.find((line: { name: string }) =>
-          isUndergroundLine(line.name)
-        )?.name || 'Unknown',
-      },
-    })),
+    features: data.features.flatMap((feature: Feature) => {
+      const lines: Array<{ name: string }> = feature.properties?.lines || [];
+      const lineNames = [...new Set(lines.map((line) => line.name).filter((name) => registered.includes(name)))];
+      return lineNames.map((lineName) => ({
+        ...feature,
+        properties: {
+          ...feature.properties,
+          lineName,
+          mode: getModeIdForLine(lineName),
+        },
+      }));
+    }),
   } as FeatureCollection<LineString>;
 }
 
-function filterUndergroundStations(data: FeatureCollection): FeatureCollection<Point> {
+// Stations on any registered line, tagged with their modes as ",tube,dlr,"
+// so a plain substring test can filter them
+function filterRegisteredStations(data: FeatureCollection): FeatureCollection<Point> {
   return {
     type: 'FeatureCollection',
-    features: data.features.filter((feature: Feature) => {
-      const lines = feature.properties?.lines || [];
-      return lines.some((line: { name: string }) => isUndergroundLine(line.name));
+    features: data.features.flatMap((feature: Feature) => {
+      const lines: Array<{ name: string }> = feature.properties?.lines || [];
+      const modes = [...new Set(lines.map((line) => getModeIdForLine(line.name)).filter(Boolean))];
+      if (modes.length === 0) return [];
+      return [{ ...feature, properties: { ...feature.properties, modes: `,${modes.join(',')},` } }];
     }),
   } as FeatureCollection<Point>;
 }
 
-// Convert trains to GeoJSON for MapLibre
-function trainsToGeoJSON(trains: TrainWithPosition[]): FeatureCollection<Point> {
-  return {
-    type: 'FeatureCollection',
-    features: trains.map((train) => ({
-      type: 'Feature' as const,
-      properties: {
-        id: train.id,
-        lineId: train.lineId,
-        lineName: train.lineName,
-        destination: train.destination,
-        timeToStation: train.timeToStation,
-        heading: train.heading,
-        color: LINE_COLORS[train.lineName] || '#888888',
-      },
-      geometry: {
-        type: 'Point' as const,
-        coordinates: train.position,
-      },
-    })),
-  };
+// ['match', input, label, output, ..., fallback] from label/output pairs
+function matchExpression(
+  input: maplibregl.ExpressionSpecification,
+  [[label, output], ...cases]: Array<[string, string | number]>,
+  fallback: string | number
+): maplibregl.ExpressionSpecification {
+  return ['match', input, label, output, ...cases.flat(), fallback];
 }
 
-// Convert trails to GeoJSON
-function trailsToGeoJSON(
-  trails: Array<{ id: string; lineId: string; lineName: string; coordinates: [number, number][] }>
-): FeatureCollection<LineString> {
-  return {
-    type: 'FeatureCollection',
-    features: trails.map((trail) => ({
-      type: 'Feature' as const,
-      properties: {
-        id: trail.id,
-        color: LINE_COLORS[trail.lineName] || '#888888',
-      },
-      geometry: {
-        type: 'LineString' as const,
-        coordinates: trail.coordinates,
-      },
-    })),
-  };
+// Line colors keyed by geometry name. The Overground shares one geometry
+// between its six lines, so it's drawn in the mode's orange; Northern takes
+// the theme's colour so it shows on the dark basemap.
+function lineColorExpression(northern: string): maplibregl.ExpressionSpecification {
+  const pairs = MODES.flatMap((mode) => mode.lines)
+    .filter((line, i, lines) => lines.findIndex((other) => other.geometryName === line.geometryName) === i)
+    .map((line): [string, string] => [
+      line.geometryName,
+      line.name === 'Northern' ? northern : LINE_COLORS[line.geometryName] || getLineColor(line.name),
+    ]);
+  return matchExpression(['get', 'lineName'], pairs, '#888888');
+}
+
+// Planned route: one line per leg in the line's color, plus a stop marker
+// at each end of every leg
+function journeyToGeoJSON(route: JourneyRoute | null): FeatureCollection {
+  const features: Feature[] = [];
+
+  for (const leg of route?.legs || []) {
+    features.push({
+      type: 'Feature',
+      properties: { lineName: leg.lineName },
+      geometry: { type: 'LineString', coordinates: leg.path },
+    });
+    for (const coordinates of [leg.path[0], leg.path[leg.path.length - 1]]) {
+      features.push({
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Point', coordinates },
+      });
+    }
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+// Offset parallel lines so they don't overlap
+const LINE_OFFSET = matchExpression(['get', 'lineName'], Object.entries(LINE_OFFSETS), 0);
+
+// Layers that follow the line selection, with their normal opacity property
+const LINE_SELECTION_LAYERS: Array<{ id: string; opacity: string; base: number }> = [
+  { id: 'tube-lines-casing', opacity: 'line-opacity', base: 0.2 },
+  { id: 'tube-lines-layer', opacity: 'line-opacity', base: 1 },
+  { id: 'line-disruptions-layer', opacity: 'line-opacity', base: 1 },
+];
+
+const STATION_LAYERS = ['tube-stations-layer', 'tube-stations-labels'];
+
+// The app's lowest layer; the basemap goes under it
+const FIRST_APP_LAYER = 'tube-lines-casing';
+
+// Bundled with the app, and drawn by MapLibre itself since the style has no
+// glyphs URL. It has to be loaded before the first label is drawn.
+const LABEL_FONT = 'Open Sans';
+
+function stationModeFilter(modes: ModeId[]): maplibregl.ExpressionSpecification {
+  return ['any', ...modes.map((mode): maplibregl.ExpressionSpecification => ['in', `,${mode},`, ['get', 'modes']])];
 }
 
 export function TubeMap() {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const mapLoaded = useRef(false);
+  const [mapReady, setMapReady] = useState(false);
+  const { theme, toggleTheme } = useTheme();
+  const [basemap, setBasemap] = useState<Basemap | null>(null);
+
+  const { data: trainsData, isLoading, error, dataUpdatedAt, isFetching, streaming, offline } = useTrains();
+  const recorder = useRecorder(offline ? undefined : trainsData);
+  const replay = useReplay();
+  const live = useExtrapolatedTrains(trainsData, dataUpdatedAt, offline);
+
+  // While replaying, recorded snapshots stand in for the live feed
+  const dataTimestamp = replay.active ? replay.snapshot?.timestamp ?? 0 : live.timestamp;
+  const { animator, positions, getUnresolvedArrivals } = useTrainPositions(
+    replay.active ? replay.snapshot?.trains : live.trains,
+    replay.active ? replay.clock : undefined
+  );
+  const unresolved = getUnresolvedArrivals();
 
-  const { data: trainsData, isLoading, error, dataUpdatedAt, isFetching } = useTrains();
-  const { positions, getTrails } = useTrainPositions(trainsData?.trains);
+  // Lines the server couldn't fetch live, still shown from their last trains
+  const degradedLines = useMemo(
+    () => replay.active || offline || !trainsData ? [] : getDegradedLines(trainsData.lines, trainsData.timestamp),
+    [replay.active, offline, trainsData]
+  );
+  const { data: statusData } = useLineStatus();
+
+  const [showHeadways, setShowHeadways] = useState(false);
+  const { groups: headwayGroups, options: headwayOptions, setOptions: setHeadwayOptions } = useHeadways(
+    positions,
+    showHeadways
+  );
+  const bunchedPairs = useMemo(() => getBunchedPairs(headwayGroups), [headwayGroups]);
+
+  const journey = useJourneyPlanner(
+    positions,
+    dataTimestamp,
+    replay.active ? replay.clock : undefined
+  );
+
+  // Station departure board and the train it asked to highlight
+  const [selectedStationId, setSelectedStationId] = useState<string | null>(null);
+  const [highlightedTrainId, setHighlightedTrainId] = useState<string | null>(null);
+  const selectedStation = selectedStationId ? getStationById(selectedStationId) : null;
+
+  // Fly to a station found by search and open its departures
+  const showStation = (stationId: string) => {
+    const station = getStationById(stationId);
+    if (!station || !map.current) return;
+    setSelectedStationId(stationId);
+    map.current.flyTo({ center: station.coordinates, zoom: Math.max(map.current.getZoom(), 14) });
+  };
 
   // Countdown timer state
   const [timeInfo, setTimeInfo] = useState({ sinceLast: 0, untilNext: 10 });
@@ -106,30 +214,153 @@ export function TubeMap() {
     return () => clearInterval(interval);
   }, [dataUpdatedAt]);
 
-  // Update map sources
-  const updateSources = useCallback(() => {
-    if (!map.current || !mapLoaded.current) return;
+  // Trains are drawn by a custom layer reading the animator directly
+  const trainsLayer = useRef<TrainsLayer | null>(null);
+
+  // Bunched pairs from the headway analytics: a link and a ring on each
+  useEffect(() => {
+    if (!mapReady || !trainsLayer.current) return;
+    trainsLayer.current.setLinks(bunchedPairs.map((pair) => [pair.leaderTrackingId, pair.trackingId]));
+    trainsLayer.current.setMarked('bunched', bunchedPairs.flatMap((pair) => [pair.leaderTrackingId, pair.trackingId]));
+  }, [mapReady, bunchedPairs]);
+
+  const { selectTrain } = useTrainFollow(map, mapReady, positions, animator);
+
+  const { selection, toggleLine, setFocus, toggleMode, clear: clearLineSelection } = useLineSelection();
+
+  const locateMe = useLocateMe(positions, selection.modes);
+  const { dropPin } = locateMe;
 
+  // Map clicks drop the pin instead of selecting while pinning
+  const pinningRef = useRef(false);
+  useEffect(() => {
+    pinningRef.current = locateMe.status === 'pinning';
+    if (map.current) map.current.getCanvas().style.cursor = pinningRef.current ? 'crosshair' : '';
+  }, [locateMe.status]);
+
+  // Hide switched-off modes and unselected lines, or in focus mode dim the
+  // unselected lines instead
+  useEffect(() => {
+    if (!mapReady || !map.current) return;
     const mapInstance = map.current;
 
-    // Update trains
-    const trainsSource = mapInstance.getSource('trains') as maplibregl.GeoJSONSource;
-    if (trainsSource && positions.length > 0) {
-      trainsSource.setData(trainsToGeoJSON(positions));
+    const selected: maplibregl.ExpressionSpecification = ['in', ['get', 'lineName'], ['literal', selection.lines]];
+    const inModes: maplibregl.ExpressionSpecification = ['in', ['get', 'mode'], ['literal', selection.modes]];
+    const filtering = selection.lines.length > 0;
+
+    for (const layer of LINE_SELECTION_LAYERS) {
+      mapInstance.setFilter(layer.id, filtering && !selection.focus ? ['all', inModes, selected] : inModes);
+      mapInstance.setPaintProperty(
+        layer.id,
+        layer.opacity,
+        selection.focus ? ['case', selected, layer.base, layer.base * FOCUS_DIM] : layer.base
+      );
     }
 
-    // Update trails
-    const trailsSource = mapInstance.getSource('trails') as maplibregl.GeoJSONSource;
-    if (trailsSource) {
-      const trails = getTrails();
-      trailsSource.setData(trailsToGeoJSON(trails));
+    for (const layerId of STATION_LAYERS) {
+      mapInstance.setFilter(layerId, stationModeFilter(selection.modes));
     }
-  }, [positions, getTrails]);
 
-  // Update sources on each animation frame
+    trainsLayer.current?.setFilter(selection);
+  }, [mapReady, selection]);
+
+  // Frame the chosen lines when entering focus mode
   useEffect(() => {
-    updateSources();
-  }, [updateSources]);
+    if (!mapReady || !map.current || !selection.focus) return;
+
+    const bounds = getLinesBounds(selection.lines);
+    if (bounds) map.current.fitBounds(bounds, { padding: 60, duration: 800 });
+  }, [mapReady, selection.focus, selection.lines]);
+
+  // Grey out suspended and closed sections
+  useEffect(() => {
+    if (!mapReady || !map.current || !statusData) return;
+
+    const source = map.current.getSource('line-disruptions') as maplibregl.GeoJSONSource;
+    source?.setData(disruptionsToGeoJSON(statusData.statuses));
+  }, [mapReady, statusData]);
+
+  // Draw the planned route and ring the trains it boards
+  const boardedTrainIds = useMemo(
+    () => [...new Set(journey.options.flatMap((option) => option.legs.map((leg) => leg.trackingId)))]
+      .filter((id): id is string => id !== null),
+    [journey.options]
+  );
+
+  useEffect(() => {
+    if (!mapReady || !map.current) return;
+
+    const source = map.current.getSource('journey') as maplibregl.GeoJSONSource;
+    source?.setData(journeyToGeoJSON(journey.route));
+  }, [mapReady, journey.route]);
+
+  useEffect(() => {
+    if (!mapReady || !trainsLayer.current) return;
+    trainsLayer.current.setMarked('journey', boardedTrainIds);
+  }, [mapReady, boardedTrainIds]);
+
+  // Mark the user, ring the stations nearby and the trains heading into them
+  useEffect(() => {
+    if (!mapReady || !map.current) return;
+
+    const source = map.current.getSource('user-location') as maplibregl.GeoJSONSource;
+    source?.setData({
+      type: 'FeatureCollection',
+      features: locateMe.location
+        ? [{ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: locateMe.location.position } }]
+        : [],
+    });
+  }, [mapReady, locateMe.location]);
+
+  useEffect(() => {
+    if (!mapReady || !map.current) return;
+    const mapInstance = map.current;
+
+    const stationIds = locateMe.stations.flatMap((station) => station.stationIds);
+    mapInstance.setFilter('nearby-stations', ['in', ['get', 'id'], ['literal', stationIds]]);
+
+    if (!locateMe.location) return;
+    const bounds = new maplibregl.LngLatBounds(locateMe.location.position, locateMe.location.position);
+    for (const station of locateMe.stations) bounds.extend(station.coordinates);
+    mapInstance.fitBounds(bounds, { padding: 80, maxZoom: 15, duration: 800 });
+  }, [mapReady, locateMe.location, locateMe.stations]);
+
+  useEffect(() => {
+    if (!mapReady || !trainsLayer.current) return;
+    trainsLayer.current.setMarked('nearby', locateMe.approachingTrainIds);
+  }, [mapReady, locateMe.approachingTrainIds]);
+
+  // Ring the highlighted train and bring it into view
+  useEffect(() => {
+    if (!map.current || !mapLoaded.current || !trainsLayer.current) return;
+
+    trainsLayer.current.setMarked('highlight', highlightedTrainId ? [highlightedTrainId] : []);
+
+    const position = highlightedTrainId ? animator.getPosition(highlightedTrainId) : null;
+    if (position) {
+      map.current.flyTo({ center: position, zoom: Math.max(map.current.getZoom(), 13) });
+    }
+  }, [animator, highlightedTrainId]);
+
+  // A local vector basemap when the dev server has one, else CARTO's tiles
+  useEffect(() => {
+    fetchBasemap().then(setBasemap);
+  }, []);
+
+  // Swap the basemap and restyle the app's layers to read on it
+  useEffect(() => {
+    if (!mapReady || !map.current || !basemap) return;
+    const mapInstance = map.current;
+    const colors = THEME_COLORS[theme];
+
+    applyBasemap(mapInstance, basemap, theme, FIRST_APP_LAYER);
+    mapInstance.setPaintProperty('tube-lines-casing', 'line-color', colors.casing);
+    for (const layerId of ['tube-lines-layer', 'journey-route']) {
+      mapInstance.setPaintProperty(layerId, 'line-color', lineColorExpression(colors.northern));
+    }
+    mapInstance.setPaintProperty('tube-stations-labels', 'text-color', colors.label);
+    mapInstance.setPaintProperty('tube-stations-labels', 'text-halo-color', colors.labelHalo);
+  }, [mapReady, basemap, theme]);
 
   // Initialize map
   useEffect(() => {
@@ -137,50 +368,31 @@ export function TubeMap() {
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: {
-        version: 8,
-        name: 'Dark Minimal',
-        sources: {
-          'carto-dark': {
-            type: 'raster',
-            tiles: [
-              'https://a.basemaps.cartocdn.com/dark_nolabels/{z}/{x}/{y}@2x.png',
-              'https://b.basemaps.cartocdn.com/dark_nolabels/{z}/{x}/{y}@2x.png',
-              'https://c.basemaps.cartocdn.com/dark_nolabels/{z}/{x}/{y}@2x.png',
-            ],
-            tileSize: 256,
-            attribution: '&copy; <a href="https://carto.com/">CARTO</a> &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-          },
-        },
-        layers: [
-          {
-            id: 'carto-dark-layer',
-            type: 'raster',
-            source: 'carto-dark',
-            minzoom: 0,
-            maxzoom: 22,
-          },
-        ],
-      },
+      // The basemap is added under the app's layers once it's known
+      style: { version: 8, sources: {}, layers: [] },
       center: [-0.1276, 51.5074],
       zoom: 11,
       minZoom: 9,
       maxZoom: 16,
     });
 
-    map.current.on('load', () => {
-      const mapInstance = map.current;
-      if (!mapInstance) return;
+    const created = map.current;
+    created.on('load', async () => {
+      await document.fonts.load(`11px "${LABEL_FONT}"`).catch(() => undefined);
+      // Removed while the font loaded
+      if (map.current !== created) return;
+      const mapInstance = created;
 
       mapLoaded.current = true;
+      setMapReady(true);
 
-      const undergroundLines = filterUndergroundLines(linesData as FeatureCollection);
-      const undergroundStations = filterUndergroundStations(stationsData as FeatureCollection);
+      const registeredLines = filterRegisteredLines(linesData as FeatureCollection);
+      const registeredStations = filterRegisteredStations(stationsData as FeatureCollection);
 
       // Add tube lines source
       mapInstance.addSource('tube-lines', {
         type: 'geojson',
-        data: undergroundLines,
+        data: registeredLines,
       });
 
       // Add tube lines casing
@@ -205,34 +417,10 @@ export function TubeMap() {
         type: 'line',
         source: 'tube-lines',
         paint: {
-          'line-color': [
-            'match',
-            ['get', 'lineName'],
-            'Bakerloo', '#B36305',
-            'Central', '#E32017',
-            'Circle', '#FFD300',
-            'District', '#00782A',
-            'Hammersmith & City', '#F3A9BB',
-            'Jubilee', '#A0A5A9',
-            'Metropolitan', '#9B0056',
-            'Northern', '#1a1a1a',
-            'Piccadilly', '#003688',
-            'Victoria', '#0098D4',
-            'Waterloo & City', '#95CDBA',
-            '#888888',
-          ],
+          'line-color': lineColorExpression(THEME_COLORS.dark.northern),
           'line-width': 3,
           'line-opacity': 1,
-          // Offset parallel lines so they don't overlap
-          'line-offset': [
-            'match',
-            ['get', 'lineName'],
-            'Circle', 3,
-            'Hammersmith & City', -3,
-            'District', 0,
-            'Metropolitan', 3,
-            0,
-          ],
+          'line-offset': LINE_OFFSET,
         },
         layout: {
           'line-cap': 'round',
@@ -240,10 +428,82 @@ export function TubeMap() {
         },
       });
 
+      // Planned journey, drawn over the lines it uses
+      mapInstance.addSource('journey', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      });
+
+      mapInstance.addLayer({
+        id: 'journey-route-casing',
+        type: 'line',
+        source: 'journey',
+        filter: ['==', ['geometry-type'], 'LineString'],
+        paint: {
+          'line-color': '#ffffff',
+          'line-width': 10,
+          'line-opacity': 0.9,
+        },
+        layout: {
+          'line-cap': 'round',
+          'line-join': 'round',
+        },
+      });
+
+      mapInstance.addLayer({
+        id: 'journey-route',
+        type: 'line',
+        source: 'journey',
+        filter: ['==', ['geometry-type'], 'LineString'],
+        paint: {
+          'line-color': lineColorExpression(THEME_COLORS.dark.northern),
+          'line-width': 6,
+        },
+        layout: {
+          'line-cap': 'round',
+          'line-join': 'round',
+        },
+      });
+
+      mapInstance.addLayer({
+        id: 'journey-stops',
+        type: 'circle',
+        source: 'journey',
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 6,
+          'circle-color': '#ffffff',
+          'circle-stroke-color': '#000000',
+          'circle-stroke-width': 2,
+        },
+      });
+
+      // Add disruptions source, filled from line status
+      mapInstance.addSource('line-disruptions', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      });
+
+      // Dashed grey over sections out of service
+      mapInstance.addLayer({
+        id: 'line-disruptions-layer',
+        type: 'line',
+        source: 'line-disruptions',
+        paint: {
+          'line-color': '#9ca3af',
+          'line-width': 3,
+          'line-dasharray': [1.5, 1.5],
+          'line-offset': LINE_OFFSET,
+        },
+        layout: {
+          'line-join': 'round',
+        },
+      });
+
       // Add stations source
       mapInstance.addSource('tube-stations', {
         type: 'geojson',
-        data: undergroundStations,
+        data: registeredStations,
       });
 
       // Add stations layer
@@ -265,6 +525,26 @@ export function TubeMap() {
         },
       });
 
+      // Stations near the user
+      mapInstance.addLayer({
+        id: 'nearby-stations',
+        type: 'circle',
+        source: 'tube-stations',
+        filter: ['in', ['get', 'id'], ['literal', []]],
+        paint: {
+          'circle-radius': [
+            'interpolate',
+            ['linear'],
+            ['zoom'],
+            10, 6,
+            14, 10,
+          ],
+          'circle-color': 'rgba(0, 0, 0, 0)',
+          'circle-stroke-color': '#38bdf8',
+          'circle-stroke-width': 3,
+        },
+      });
+
       // Add station labels
       mapInstance.addLayer({
         id: 'tube-stations-labels',
@@ -276,7 +556,7 @@ export function TubeMap() {
           'text-size': 11,
           'text-offset': [0, 1.5],
           'text-anchor': 'top',
-          'text-font': ['Open Sans Regular', 'Arial Unicode MS Regular'],
+          'text-font': [LABEL_FONT],
         },
         paint: {
           'text-color': '#ffffff',
@@ -285,115 +565,67 @@ export function TubeMap() {
         },
       });
 
-      // Add trails source
-      mapInstance.addSource('trails', {
-        type: 'geojson',
-        data: { type: 'FeatureCollection', features: [] },
-      });
-
-      // Add trails layer (subtle fading line behind trains)
-      mapInstance.addLayer({
-        id: 'trails-layer',
-        type: 'line',
-        source: 'trails',
-        paint: {
-          'line-color': ['get', 'color'],
-          'line-width': 2,
-          'line-opacity': 0.3,
-        },
-        layout: {
-          'line-cap': 'round',
-          'line-join': 'round',
-        },
-      });
+      // Trains with their trails, glow and rings, drawn each frame from the
+      // animator's buffers
+      trainsLayer.current = createTrainsLayer('trains', animator);
+      mapInstance.addLayer(trainsLayer.current);
 
-      // Add trains source
-      mapInstance.addSource('trains', {
+      // The user's location or dropped pin
+      mapInstance.addSource('user-location', {
         type: 'geojson',
         data: { type: 'FeatureCollection', features: [] },
       });
 
-      // Add train glow layer (subtle halo effect)
       mapInstance.addLayer({
-        id: 'trains-glow',
+        id: 'user-location',
         type: 'circle',
-        source: 'trains',
+        source: 'user-location',
         paint: {
-          'circle-radius': [
-            'interpolate',
-            ['linear'],
-            ['zoom'],
-            10, 8,
-            14, 14,
-          ],
-          'circle-color': ['get', 'color'],
-          'circle-opacity': 0.3,
-          'circle-blur': 1,
-        },
-      });
-
-      // Add trains layer - solid dot with white outline for visibility
-      mapInstance.addLayer({
-        id: 'trains-layer',
-        type: 'circle',
-        source: 'trains',
-        paint: {
-          'circle-radius': [
-            'interpolate',
-            ['linear'],
-            ['zoom'],
-            10, 5,
-            14, 9,
-          ],
-          'circle-color': ['get', 'color'],
+          'circle-radius': 7,
+          'circle-color': '#38bdf8',
           'circle-stroke-color': '#ffffff',
-          'circle-stroke-width': 1.5,
-          'circle-stroke-opacity': 0.8,
+          'circle-stroke-width': 2,
         },
       });
 
-      // Add popup on train click
-      mapInstance.on('click', 'trains-layer', (e) => {
-        if (!e.features || e.features.length === 0) return;
-
-        const feature = e.features[0];
-        const props = feature.properties;
-        const coordinates = (feature.geometry as Point).coordinates.slice() as [number, number];
+      // Drop the pin where the map was clicked
+      mapInstance.on('click', (e) => {
+        if (pinningRef.current) dropPin([e.lngLat.lng, e.lngLat.lat]);
+      });
 
-        new maplibregl.Popup({ closeButton: false, className: 'train-popup' })
-          .setLngLat(coordinates)
-          .setHTML(`
-            <div style="font-family: system-ui, sans-serif; padding: 2px;">
-              <div style="font-weight: 600; color: ${props?.color}; border-bottom: 2px solid ${props?.color}; padding-bottom: 4px; margin-bottom: 4px;">
-                ${props?.lineName} Line
-              </div>
-              <div style="color: #333; font-size: 13px;">
-                <div>→ ${props?.destination}</div>
-                <div style="color: #666; font-size: 11px; margin-top: 2px;">
-                  ${props?.timeToStation}s to next station
-                </div>
-              </div>
-            </div>
-          `)
-          .addTo(mapInstance);
+      // Select a train on click; its popup tracks it from then on
+      mapInstance.on('click', (e) => {
+        const trackingId = trainsLayer.current?.hitTest(e.point);
+        if (trackingId && !pinningRef.current) selectTrain(trackingId);
       });
 
-      // Change cursor on hover
-      mapInstance.on('mouseenter', 'trains-layer', () => {
-        if (mapInstance) mapInstance.getCanvas().style.cursor = 'pointer';
+      // Open the departure board on station click
+      mapInstance.on('click', 'tube-stations-layer', (e) => {
+        const stationId = e.features?.[0]?.properties?.id;
+        if (stationId && !pinningRef.current) setSelectedStationId(stationId);
       });
 
-      mapInstance.on('mouseleave', 'trains-layer', () => {
-        if (mapInstance) mapInstance.getCanvas().style.cursor = '';
+      // Keep what's in view for when the signal drops
+      mapInstance.on('moveend', () => cacheVisibleTiles(mapInstance));
+      cacheVisibleTiles(mapInstance);
+
+      // Change cursor on hover over a train or station
+      mapInstance.on('mousemove', (e) => {
+        if (pinningRef.current) return;
+        const overTrain = !!trainsLayer.current?.hitTest(e.point);
+        const overStation = mapInstance.queryRenderedFeatures(e.point, { layers: ['tube-stations-layer'] }).length > 0;
+        mapInstance.getCanvas().style.cursor = overTrain || overStation ? 'pointer' : '';
       });
     });
 
     return () => {
       map.current?.remove();
       map.current = null;
+      trainsLayer.current = null;
       mapLoaded.current = false;
+      setMapReady(false);
     };
-  }, []);
+  }, [animator, selectTrain, dropPin]);
 
   return (
     <div className="relative w-full h-full">
@@ -401,22 +633,149 @@ export function TubeMap() {
 
       {/* Title + Status overlay - left */}
       <div className="absolute top-4 left-4 flex flex-col gap-2">
-        <div className="bg-black/80 text-white px-4 py-2 rounded">
-          <h1 className="text-lg font-bold tracking-tight">Dude Wheres My Tube?</h1>
-          <p className="text-xs text-gray-400">Live London Underground Tracker</p>
+        <div className="flex items-start justify-between gap-3 bg-black/80 text-white px-4 py-2 rounded">
+          <div>
+            <h1 className="text-lg font-bold tracking-tight">Dude Wheres My Tube?</h1>
+            <p className="text-xs text-gray-400">Live London Underground Tracker</p>
+          </div>
+          <button
+            type="button"
+            onClick={toggleTheme}
+            className="text-xs text-gray-400 hover:text-white mt-1"
+            aria-label={`Switch to ${theme === 'dark' ? 'light' : 'dark'} map`}
+          >
+            {theme === 'dark' ? 'Light' : 'Dark'}
+          </button>
         </div>
+        <StationSearch onSelect={showStation} />
         <div className="bg-black/70 text-white px-3 py-2 rounded text-sm">
           {isLoading && !positions.length && <span>Loading trains...</span>}
-          {error && <span className="text-red-400">Error: {error.message}</span>}
+          {error && !offline && <span className="text-red-400">Error: {error.message}</span>}
           {positions.length > 0 && (
             <span className="flex items-center gap-2">
-              <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-              {positions.length} trains live
+              <span
+                className={`w-2 h-2 rounded-full ${
+                  replay.active ? 'bg-sky-400' : offline ? 'bg-gray-500' : 'bg-green-500 animate-pulse'
+                }`}
+              />
+              {positions.length} trains {replay.active ? 'in replay' : offline ? 'estimated' : 'live'}
+            </span>
+          )}
+          {offline && !replay.active && (
+            <span className="block text-xs text-amber-400 mt-1">
+              Offline, {Math.round(timeInfo.sinceLast / 60)} min old
+            </span>
+          )}
+          {unresolved.length > 0 && (
+            <span
+              className="block text-xs text-amber-400 mt-1 cursor-help"
+              title={unresolved
+                .map((arrival) => `${arrival.lineName}: ${arrival.stationName || '?'} (${arrival.naptanId || 'no id'}) ×${arrival.count}`)
+                .join('\n')}
+            >
+              {unresolved.length} stations unplaced
+            </span>
+          )}
+          {degradedLines.length > 0 && (
+            <span
+              className="block text-xs text-amber-400 mt-1 cursor-help"
+              title={degradedLines.map(describeDegradedLine).join('\n')}
+            >
+              No live data: {degradedLines.map((line) => line.lineName).join(', ')}
             </span>
           )}
         </div>
+        <LineSelector
+          selection={selection}
+          onToggleLine={toggleLine}
+          onFocusChange={setFocus}
+          onToggleMode={toggleMode}
+          onClear={clearLineSelection}
+          degradedLines={degradedLines}
+        />
+        {statusData && <DisruptionLegend statuses={statusData.statuses} />}
       </div>
 
+      {selectedStation ? (
+        <StationPanel
+          station={selectedStation}
+          trains={positions}
+          dataUpdatedAt={dataTimestamp}
+          clock={replay.active ? replay.clock : undefined}
+          onShowTrain={setHighlightedTrainId}
+          onPlanFrom={journey.setFrom}
+          onPlanTo={journey.setTo}
+          onClose={() => {
+            setSelectedStationId(null);
+            setHighlightedTrainId(null);
+          }}
+        />
+      ) : (
+        <NearbyPanel
+          location={locateMe.location}
+          status={locateMe.status}
+          error={locateMe.error}
+          stations={locateMe.stations}
+          arrivals={locateMe.arrivals}
+          dataUpdatedAt={dataTimestamp}
+          clock={replay.active ? replay.clock : undefined}
+          onLocate={locateMe.locate}
+          onStartPinning={locateMe.startPinning}
+          onSelectStation={setSelectedStationId}
+          onShowTrain={setHighlightedTrainId}
+          onClose={locateMe.clear}
+        />
+      )}
+
+      {showHeadways ? (
+        <HeadwayPanel
+          groups={headwayGroups}
+          options={headwayOptions}
+          onOptionsChange={setHeadwayOptions}
+          onSelectTrain={setHighlightedTrainId}
+          onClose={() => setShowHeadways(false)}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowHeadways(true)}
+          className="absolute top-20 right-4 bg-black/70 text-white px-3 py-1 rounded text-sm"
+        >
+          Headways
+        </button>
+      )}
+
+      {(journey.fromId || journey.toId) && (
+        <JourneyPanel
+          fromId={journey.fromId}
+          toId={journey.toId}
+          route={journey.route}
+          options={journey.options}
+          clock={replay.active ? replay.clock : undefined}
+          onShowTrain={setHighlightedTrainId}
+          onSwap={journey.swap}
+          onClear={journey.clear}
+        />
+      )}
+
+      <ReplayControls
+        active={replay.active}
+        start={replay.start}
+        end={replay.end}
+        time={replay.time}
+        playing={replay.playing}
+        speed={replay.speed}
+        error={replay.error}
+        recording={recorder.recording}
+        recordedCount={recorder.recordedCount}
+        onOpen={replay.open}
+        onClose={replay.close}
+        onTogglePlaying={replay.togglePlaying}
+        onSpeedChange={replay.setSpeed}
+        onSeek={replay.seek}
+        onRecordingChange={recorder.setRecording}
+      />
+
       {/* Timer badge - right */}
       <div className="absolute top-4 right-4 bg-black/70 text-white px-3 py-2 rounded text-sm font-mono">
         <div className="flex items-center gap-3">
@@ -427,12 +786,19 @@ export function TubeMap() {
             </div>
           </div>
           <div className="w-px h-8 bg-gray-600" />
-          <div className="text-center">
-            <div className="text-xs text-gray-400">Next in</div>
-            <div className={timeInfo.untilNext <= 3 ? 'text-green-400' : ''}>
-              {timeInfo.untilNext}s
+          {streaming ? (
+            <div className="text-center">
+              <div className="text-xs text-gray-400">Updates</div>
+              <div className="text-green-400">live</div>
             </div>
-          </div>
+          ) : (
+            <div className="text-center">
+              <div className="text-xs text-gray-400">Next in</div>
+              <div className={timeInfo.untilNext <= 3 ? 'text-green-400' : ''}>
+                {timeInfo.untilNext}s
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
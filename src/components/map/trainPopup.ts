@@ -0,0 +1,78 @@
+import type { TrainWithPosition } from '../../types/train';
+import { getLineColor } from '../../lib/lineColors';
+import { getStationById } from '../../lib/stationLookup';
+
+const POPUP_STOP_COUNT = 5;
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return 'due';
+  return `${Math.round(seconds / 60)} min`;
+}
+
+// TfL's own bound where the platform names one ("Eastbound - Platform 1"),
+// else east or west by the way the train is heading
+function trainBound(train: TrainWithPosition): string | null {
+  const platform = train.upcomingStops[0]?.platformName || '';
+  const named = platform.match(/^(North|South|East|West)bound/i);
+  if (named) return `${named[1][0].toUpperCase()}${named[1].slice(1).toLowerCase()}bound`;
+  if (train.heading === null) return null;
+  return train.heading < 180 ? 'Eastbound' : 'Westbound';
+}
+
+export function trainPopupHTML(train: TrainWithPosition, color: string): string {
+  const stops = train.upcomingStops.slice(0, POPUP_STOP_COUNT).map((stop) => `
+    <div style="display: flex; justify-content: space-between; gap: 12px;">
+      <span>${stop.stationName}</span>
+      <span style="color: #666;">${formatEta(stop.timeToStation)}</span>
+    </div>
+  `).join('');
+
+  const skipped = train.skippedStationIds
+    .map((id) => getStationById(id)?.name)
+    .filter(Boolean);
+
+  const bound = trainBound(train);
+
+  return `
+    <div style="font-family: system-ui, sans-serif; padding: 2px;">
+      <div style="font-weight: 600; color: ${color}; border-bottom: 2px solid ${color}; padding-bottom: 4px; margin-bottom: 4px;">
+        ${train.lineName} Line
+      </div>
+      <div style="color: #333; font-size: 13px;">
+        <div>
+          ${bound ? `
+            <span style="font-size: 10px; font-weight: 600; text-transform: uppercase; border: 1px solid ${color}; border-radius: 3px; padding: 1px 4px; margin-right: 4px;">
+              ${bound}
+            </span>
+          ` : ''}
+          → ${train.destination}
+        </div>
+        <div style="font-size: 11px; margin-top: 4px;">${stops}</div>
+        ${skipped.length > 0 ? `
+          <div style="color: #b45309; font-size: 11px; margin-top: 4px;">
+            Not stopping at ${skipped.join(', ')}
+          </div>
+        ` : ''}
+      </div>
+    </div>
+  `;
+}
+
+// Popup body plus a follow toggle wired up as a real button
+export function createTrainPopupContent(
+  train: TrainWithPosition,
+  following: boolean,
+  onToggleFollow: () => void
+): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = trainPopupHTML(train, getLineColor(train.lineName));
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = following ? 'Stop following' : 'Follow train';
+  button.style.cssText = 'margin-top: 6px; font-size: 11px; color: #0369a1; cursor: pointer;';
+  button.addEventListener('click', onToggleFollow);
+  container.appendChild(button);
+
+  return container;
+}
@@ -0,0 +1,655 @@
+import maplibregl from 'maplibre-gl';
+import { LINE_COLORS, LINE_OFFSETS } from '../../lib/lineColors';
+import { getModeIdForLine } from '../../lib/modes';
+import type { TrainAnimator } from '../../lib/trainAnimator';
+import { FOCUS_DIM } from '../../hooks/useLineSelection';
+import type { LineSelection } from '../../hooks/useLineSelection';
+
+// Trains drawn straight from the animator's typed arrays in one custom
+// WebGL layer: trails, a glow, the dot with a chevron pointing the way the
+// train is going, and a ring for marked trains. This replaces a GeoJSON
+// source that had to be rebuilt and re-tiled every frame.
+//
+// Trains and trails on lines drawn with a line-offset sit on that offset,
+// to the same side of the track the map draws the line on.
+
+// Rings around trains, strongest first when a train has more than one
+export type TrainMark = 'highlight' | 'journey' | 'nearby' | 'bunched';
+
+export interface TrainsLayer extends maplibregl.CustomLayerInterface {
+  // Show the trains the line selection shows, dimmed as its lines are
+  setFilter(selection: LineSelection): void;
+  setMarked(mark: TrainMark, trackingIds: string[]): void;
+  // Pairs of tracking ids joined by a dashed line
+  setLinks(pairs: Array<[string, string]>): void;
+  // The train drawn under a screen point, if any
+  hitTest(point: maplibregl.PointLike): string | null;
+}
+
+interface RingStyle {
+  color: [number, number, number, number];
+  radius: [number, number]; // px at zoom 10 and 14
+  width: number;
+}
+
+const MARKS: TrainMark[] = ['highlight', 'journey', 'nearby', 'bunched'];
+
+const RINGS: Record<TrainMark, RingStyle> = {
+  highlight: { color: [250, 204, 21, 1], radius: [10, 16], width: 3 },
+  journey: { color: [34, 197, 94, 1], radius: [9, 15], width: 3 },
+  nearby: { color: [56, 189, 248, 0.8], radius: [9, 15], width: 2 },
+  bunched: { color: [239, 68, 68, 1], radius: [8, 13], width: 2 },
+};
+
+const DOT_RADIUS: [number, number] = [5, 9];
+const GLOW_RADIUS: [number, number] = [8, 14];
+const STROKE_WIDTH = 1.5;
+const CHEVRON_WIDTH = 0.24; // fraction of the dot radius
+const HIT_TOLERANCE = 3; // px beyond the dot that still counts as a click on it
+
+const GLOW_OPACITY = 0.3;
+const TRAIL_OPACITY = 0.3;
+const TRAIL_WIDTH = 2;
+const LINK_WIDTH = 3;
+const LINK_DASH = 3; // px on, then px off
+const LINK_COLOR: [number, number, number] = [239, 68, 68];
+const DEFAULT_COLOR = '#888888';
+
+// Trails gain a point every few metres; redrawing them more often than this
+// can't be seen
+const TRAIL_REFRESH = 100; // ms
+
+// Positions are sent to the GPU relative to central London so float32 keeps
+// them steady to well under a pixel at street zoom
+const ORIGIN = maplibregl.MercatorCoordinate.fromLngLat([-0.1276, 51.5074]);
+
+// pos 2 × f32, color 4 × u8, corner/opacity/ring 4 × u8, heading/offset/has heading 3 × f32
+const TRAIN_VERTEX_BYTES = 28;
+// pos 2 × f32, other end 2 × f32, along f32, side f32, shift f32, color 4 × u8
+const LINE_VERTEX_BYTES = 32;
+
+// A step along a train's heading, in mercator units, projected to find
+// which way that is on screen
+const HEADING_STEP = 1e-6;
+
+// A train is a square of two triangles around its position
+const QUAD_CORNERS: Array<[number, number]> = [[0, 0], [1, 0], [0, 1], [1, 0], [1, 1], [0, 1]];
+
+const TRAIN_VERTEX_SHADER = `
+uniform mat4 u_matrix;
+uniform vec2 u_viewport;
+uniform float u_extent;
+attribute vec2 a_pos;
+attribute vec4 a_color;
+attribute vec4 a_style;
+attribute vec3 a_motion; // heading in radians, px offset to its right, 1 if the heading is known
+varying vec2 v_offset;
+varying vec2 v_forward;
+varying vec4 v_color;
+varying float v_opacity;
+varying float v_ring;
+
+void main() {
+  vec2 corner = a_style.xy * 2.0 - 1.0;
+  vec4 center = u_matrix * vec4(a_pos, 0.0, 1.0);
+
+  // The heading on screen, whatever the map's bearing and pitch
+  vec2 forward = vec2(0.0);
+  if (a_motion.z > 0.5) {
+    vec2 nudge = vec2(sin(a_motion.x), -cos(a_motion.x)) * ${HEADING_STEP.toExponential()};
+    vec4 ahead = u_matrix * vec4(a_pos + nudge, 0.0, 1.0);
+    vec2 direction = (ahead.xy / ahead.w - center.xy / center.w) * u_viewport;
+    if (length(direction) > 0.0) forward = normalize(direction);
+  }
+  vec2 right = vec2(forward.y, -forward.x);
+
+  v_offset = corner * u_extent;
+  v_forward = forward;
+  v_color = a_color;
+  v_opacity = a_style.z / 255.0;
+  v_ring = a_style.w;
+  gl_Position = center + vec4((v_offset + right * a_motion.y) * 2.0 / u_viewport * center.w, 0.0, 0.0);
+}
+`;
+
+const TRAIN_FRAGMENT_SHADER = `
+precision mediump float;
+uniform float u_pass;
+uniform float u_pixel;
+uniform float u_glow_radius;
+uniform float u_dot_radius;
+uniform vec4 u_ring_color[${MARKS.length + 1}];
+uniform vec2 u_ring[${MARKS.length + 1}];
+varying vec2 v_offset;
+varying vec2 v_forward;
+varying vec4 v_color;
+varying float v_opacity;
+varying float v_ring;
+
+vec4 ringColor(int index) {
+  for (int i = 0; i < ${MARKS.length + 1}; i++) {
+    if (i == index) return u_ring_color[i];
+  }
+  return vec4(0.0);
+}
+
+vec2 ringShape(int index) {
+  for (int i = 0; i < ${MARKS.length + 1}; i++) {
+    if (i == index) return u_ring[i];
+  }
+  return vec2(0.0);
+}
+
+// 1 inside radius r, 0 outside, over about a device pixel
+float disc(float d, float r) {
+  return 1.0 - smoothstep(r - u_pixel * 0.5, r + u_pixel * 0.5, d);
+}
+
+float segmentDistance(vec2 p, vec2 a, vec2 b) {
+  vec2 pa = p - a;
+  vec2 ba = b - a;
+  return length(pa - ba * clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0));
+}
+
+// 1 on a chevron pointing along v_forward, scaled to the dot
+float chevron() {
+  if (v_forward == vec2(0.0)) return 0.0;
+  vec2 p = vec2(dot(v_offset, vec2(v_forward.y, -v_forward.x)), dot(v_offset, v_forward)) / u_dot_radius;
+  float d = min(
+    segmentDistance(p, vec2(-0.45, -0.25), vec2(0.0, 0.4)),
+    segmentDistance(p, vec2(0.45, -0.25), vec2(0.0, 0.4))
+  ) * u_dot_radius;
+  return disc(d, ${(CHEVRON_WIDTH / 2).toFixed(2)} * u_dot_radius);
+}
+
+void main() {
+  float d = length(v_offset);
+
+  // The glow goes in its own pass, under every train's dot
+  if (u_pass < 0.5) {
+    float glow = ${GLOW_OPACITY.toFixed(2)} * v_opacity * (1.0 - smoothstep(0.0, u_glow_radius, d));
+    gl_FragColor = vec4(v_color.rgb * glow, glow);
+    return;
+  }
+
+  // Dark chevrons on the pale lines, white on the rest
+  float luminance = dot(v_color.rgb, vec3(0.299, 0.587, 0.114));
+  vec3 mark = luminance > 0.6 ? vec3(0.1) : vec3(1.0);
+  vec3 body = mix(v_color.rgb, mark, chevron());
+
+  float fill = disc(d, u_dot_radius);
+  float stroke = (disc(d, u_dot_radius + ${STROKE_WIDTH.toFixed(1)}) - fill) * 0.8;
+  vec4 color = (vec4(body, 1.0) * fill + vec4(stroke)) * v_opacity;
+
+  int index = int(v_ring + 0.5);
+  vec2 shape = ringShape(index);
+  vec4 ring = ringColor(index);
+  float ringAlpha = ring.a * (disc(d, shape.x + shape.y) - disc(d, shape.x));
+  gl_FragColor = vec4(ring.rgb * ringAlpha, ringAlpha) + color * (1.0 - ringAlpha);
+}
+`;
+
+const LINE_VERTEX_SHADER = `
+uniform mat4 u_matrix;
+uniform vec2 u_viewport;
+uniform float u_width;
+uniform float u_world_size;
+attribute vec2 a_pos;
+attribute vec2 a_other;
+attribute float a_along;
+attribute float a_side;
+attribute float a_shift; // px to the right of the way the segment runs
+attribute vec4 a_color;
+varying vec4 v_color;
+varying float v_along;
+
+void main() {
+  vec4 here = u_matrix * vec4(a_pos, 0.0, 1.0);
+  vec4 there = u_matrix * vec4(a_other, 0.0, 1.0);
+  vec2 direction = there.xy / there.w * u_viewport - here.xy / here.w * u_viewport;
+  vec2 normal = length(direction) > 0.0 ? normalize(vec2(-direction.y, direction.x)) : vec2(0.0);
+  v_color = a_color;
+  v_along = a_along * u_world_size;
+  gl_Position = here + vec4(normal * (a_side * u_width - a_shift) * 2.0 / u_viewport * here.w, 0.0, 0.0);
+}
+`;
+
+const LINE_FRAGMENT_SHADER = `
+precision mediump float;
+uniform float u_dash;
+varying vec4 v_color;
+varying float v_along;
+
+void main() {
+  if (u_dash > 0.0 && mod(v_along, u_dash * 2.0) > u_dash) discard;
+  gl_FragColor = v_color;
+}
+`;
+
+type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+interface Program {
+  program: WebGLProgram;
+  attributes: Record<string, number>;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+function compile(gl: GL, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Trains shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+}
+
+function createProgram(gl: GL, vertexSource: string, fragmentSource: string, attributes: string[], uniforms: string[]): Program {
+  const program = gl.createProgram();
+  if (!program) throw new Error('Could not create shader program');
+  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Trains shader failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+
+  return {
+    program,
+    attributes: Object.fromEntries(attributes.map((name) => [name, gl.getAttribLocation(program, name)])),
+    uniforms: Object.fromEntries(uniforms.map((name) => [name, gl.getUniformLocation(program, name)])),
+  };
+}
+
+// Web Mercator, relative to ORIGIN
+function mercatorX(lng: number): number {
+  return (180 + lng) / 360 - ORIGIN.x;
+}
+
+function mercatorY(lat: number): number {
+  return (180 - (180 / Math.PI) * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360))) / 360 - ORIGIN.y;
+}
+
+function zoomInterpolate(zoom: number, [at10, at14]: [number, number]): number {
+  const t = Math.min(Math.max((zoom - 10) / 4, 0), 1);
+  return at10 + (at14 - at10) * t;
+}
+
+// '#rrggbb' to [r, g, b]
+const rgbCache = new Map<string, [number, number, number]>();
+function hexToRgb(hex: string): [number, number, number] {
+  let rgb = rgbCache.get(hex);
+  if (!rgb) {
+    const value = parseInt(hex.slice(1), 16);
+    rgb = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+    rgbCache.set(hex, rgb);
+  }
+  return rgb;
+}
+
+// Room for at least `bytes`, growing by doubling
+function grow(buffer: ArrayBuffer, bytes: number): ArrayBuffer {
+  if (buffer.byteLength >= bytes) return buffer;
+  let size = Math.max(buffer.byteLength, 1024);
+  while (size < bytes) size *= 2;
+  return new ArrayBuffer(size);
+}
+
+export function createTrainsLayer(id: string, animator: TrainAnimator): TrainsLayer {
+  let map: maplibregl.Map | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let trainProgram: Program | null = null;
+  let lineProgram: Program | null = null;
+  let trainBuffer: WebGLBuffer | null = null;
+  let trailBuffer: WebGLBuffer | null = null;
+  let linkBuffer: WebGLBuffer | null = null;
+
+  let trainData = new ArrayBuffer(0);
+  let trailData = new ArrayBuffer(0);
+  let linkData = new ArrayBuffer(0);
+  let trailVertices = 0;
+  let linkVertices = 0;
+  let trailsDrawn = { version: -1, at: 0 };
+
+  let filter: LineSelection | null = null;
+  const marked = new Map<TrainMark, Set<string>>(MARKS.map((mark) => [mark, new Set()]));
+  let links: Array<[string, string]> = [];
+
+  // Opacity for a train of this line: 0 hidden, below 1 dimmed
+  function opacityFor(lineId: string, lineName: string): number {
+    if (!filter) return 1;
+    const mode = getModeIdForLine(lineId);
+    if (!mode || !filter.modes.includes(mode)) return 0;
+    if (filter.lines.length === 0 || filter.lines.includes(lineName)) return 1;
+    return filter.focus ? FOCUS_DIM : 0;
+  }
+
+  // 1-based index into RINGS, or 0 for none
+  function ringFor(trackingId: string): number {
+    for (let i = 0; i < MARKS.length; i++) {
+      if (marked.get(MARKS[i])?.has(trackingId)) return i + 1;
+    }
+    return 0;
+  }
+
+  function writeTrains(): number {
+    const { frame } = animator;
+    trainData = grow(trainData, frame.count * QUAD_CORNERS.length * TRAIN_VERTEX_BYTES);
+    const floats = new Float32Array(trainData);
+    const bytes = new Uint8Array(trainData);
+    let vertex = 0;
+
+    for (let i = 0; i < frame.count; i++) {
+      const train = frame.trains[i];
+      const opacity = opacityFor(train.lineId, train.lineName);
+      if (opacity === 0) continue;
+
+      const x = mercatorX(frame.coordinates[i * 2]);
+      const y = mercatorY(frame.coordinates[i * 2 + 1]);
+      const [r, g, b] = hexToRgb(LINE_COLORS[train.lineName] || DEFAULT_COLOR);
+      const ring = ringFor(frame.ids[i]);
+      const heading = frame.headings[i];
+      const hasHeading = !Number.isNaN(heading);
+      const shift = hasHeading ? (LINE_OFFSETS[train.lineName] ?? 0) * frame.drawnDirections[i] : 0;
+
+      for (const [cornerX, cornerY] of QUAD_CORNERS) {
+        const offset = vertex * TRAIN_VERTEX_BYTES;
+        floats[offset / 4] = x;
+        floats[offset / 4 + 1] = y;
+        bytes[offset + 8] = r;
+        bytes[offset + 9] = g;
+        bytes[offset + 10] = b;
+        bytes[offset + 11] = 255;
+        bytes[offset + 12] = cornerX;
+        bytes[offset + 13] = cornerY;
+        bytes[offset + 14] = Math.round(opacity * 255);
+        bytes[offset + 15] = ring;
+        floats[offset / 4 + 4] = hasHeading ? (heading * Math.PI) / 180 : 0;
+        floats[offset / 4 + 5] = shift;
+        floats[offset / 4 + 6] = hasHeading ? 1 : 0;
+        vertex++;
+      }
+    }
+
+    return vertex;
+  }
+
+  // Two triangles per segment, widened on the GPU so they keep their width
+  // in pixels at any zoom, and moved `shift` px to the right of a -> b
+  function writeSegment(
+    floats: Float32Array,
+    bytes: Uint8Array,
+    start: number,
+    a: [number, number],
+    b: [number, number],
+    along: [number, number],
+    shift: number,
+    color: [number, number, number, number]
+  ) {
+    // [point, other end, along, side], the far end's side and shift flipped
+    // since it looks back down the segment
+    const corners: Array<[[number, number], [number, number], number, number]> = [
+      [a, b, along[0], 1], [a, b, along[0], -1], [b, a, along[1], -1],
+      [a, b, along[0], -1], [b, a, along[1], 1], [b, a, along[1], -1],
+    ];
+    corners.forEach(([point, other, distance, side], i) => {
+      const offset = (start + i) * LINE_VERTEX_BYTES;
+      const facing = point === a ? 1 : -1;
+      floats.set([point[0], point[1], other[0], other[1], distance, side, shift * facing], offset / 4);
+      bytes.set(color, offset + 28);
+    });
+  }
+
+  function writeTrails(): number {
+    const trails = animator.getTrails();
+    const segments = trails.reduce((total, trail) => total + trail.coordinates.length - 1, 0);
+    trailData = grow(trailData, segments * 6 * LINE_VERTEX_BYTES);
+    const floats = new Float32Array(trailData);
+    const bytes = new Uint8Array(trailData);
+    let vertex = 0;
+
+    for (const trail of trails) {
+      const opacity = opacityFor(trail.lineId, trail.lineName) * TRAIL_OPACITY;
+      if (opacity === 0) continue;
+
+      const [r, g, b] = hexToRgb(LINE_COLORS[trail.lineName] || DEFAULT_COLOR);
+      const color: [number, number, number, number] = [r * opacity, g * opacity, b * opacity, 255 * opacity];
+      // Trails run the way the train went, so they take its side of the track
+      const shift = (LINE_OFFSETS[trail.lineName] ?? 0) * trail.drawnDirection;
+      const points = trail.coordinates.map(([lng, lat]): [number, number] => [mercatorX(lng), mercatorY(lat)]);
+      for (let i = 1; i < points.length; i++) {
+        writeSegment(floats, bytes, vertex, points[i - 1], points[i], [0, 0], shift, color);
+        vertex += 6;
+      }
+    }
+
+    return vertex;
+  }
+
+  function writeLinks(): number {
+    const { frame } = animator;
+    const index = new Map(frame.ids.map((trackingId, i) => [trackingId, i]));
+    linkData = grow(linkData, links.length * 6 * LINE_VERTEX_BYTES);
+    const floats = new Float32Array(linkData);
+    const bytes = new Uint8Array(linkData);
+    const color: [number, number, number, number] = [...LINK_COLOR, 255];
+    let vertex = 0;
+
+    for (const [from, to] of links) {
+      const i = index.get(from);
+      const j = index.get(to);
+      if (i === undefined || j === undefined) continue;
+
+      const a: [number, number] = [mercatorX(frame.coordinates[i * 2]), mercatorY(frame.coordinates[i * 2 + 1])];
+      const b: [number, number] = [mercatorX(frame.coordinates[j * 2]), mercatorY(frame.coordinates[j * 2 + 1])];
+      writeSegment(floats, bytes, vertex, a, b, [0, Math.hypot(b[0] - a[0], b[1] - a[1])], 0, color);
+      vertex += 6;
+    }
+
+    return vertex;
+  }
+
+  // Point the program's attributes into `buffer`, run `draw`, then let go
+  // of them again so MapLibre's own state is as it was
+  function withAttributes(
+    gl: GL,
+    program: Program,
+    buffer: WebGLBuffer,
+    stride: number,
+    layout: Array<[string, number, number, boolean]>, // name, size, type, normalized
+    draw: () => void
+  ) {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    let offset = 0;
+    for (const [name, size, type, normalized] of layout) {
+      const location = program.attributes[name];
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, type, normalized, stride, offset);
+      offset += size * (type === gl.FLOAT ? 4 : 1);
+    }
+    draw();
+    for (const [name] of layout) gl.disableVertexAttribArray(program.attributes[name]);
+  }
+
+  function drawLines(gl: GL, buffer: WebGLBuffer, vertices: number, width: number, dash: number) {
+    if (!lineProgram || vertices === 0) return;
+    gl.uniform1f(lineProgram.uniforms.u_width, width / 2);
+    gl.uniform1f(lineProgram.uniforms.u_dash, dash);
+    withAttributes(gl, lineProgram, buffer, LINE_VERTEX_BYTES, [
+      ['a_pos', 2, gl.FLOAT, false],
+      ['a_other', 2, gl.FLOAT, false],
+      ['a_along', 1, gl.FLOAT, false],
+      ['a_side', 1, gl.FLOAT, false],
+      ['a_shift', 1, gl.FLOAT, false],
+      ['a_color', 4, gl.UNSIGNED_BYTE, true],
+    ], () => gl.drawArrays(gl.TRIANGLES, 0, vertices));
+  }
+
+  return {
+    id,
+    type: 'custom',
+    renderingMode: '2d',
+
+    onAdd(mapInstance, gl) {
+      map = mapInstance;
+      trainProgram = createProgram(
+        gl,
+        TRAIN_VERTEX_SHADER,
+        TRAIN_FRAGMENT_SHADER,
+        ['a_pos', 'a_color', 'a_style', 'a_motion'],
+        ['u_matrix', 'u_viewport', 'u_extent', 'u_pass', 'u_pixel', 'u_glow_radius', 'u_dot_radius', 'u_ring_color', 'u_ring']
+      );
+      lineProgram = createProgram(
+        gl,
+        LINE_VERTEX_SHADER,
+        LINE_FRAGMENT_SHADER,
+        ['a_pos', 'a_other', 'a_along', 'a_side', 'a_shift', 'a_color'],
+        ['u_matrix', 'u_viewport', 'u_width', 'u_world_size', 'u_dash']
+      );
+      trainBuffer = gl.createBuffer();
+      trailBuffer = gl.createBuffer();
+      linkBuffer = gl.createBuffer();
+      trailsDrawn = { version: -1, at: 0 };
+
+      // Redraw whenever the trains move
+      unsubscribe = animator.subscribe(() => mapInstance.triggerRepaint());
+    },
+
+    onRemove(_mapInstance, gl) {
+      unsubscribe?.();
+      unsubscribe = null;
+      for (const program of [trainProgram, lineProgram]) {
+        if (program) gl.deleteProgram(program.program);
+      }
+      for (const buffer of [trainBuffer, trailBuffer, linkBuffer]) {
+        if (buffer) gl.deleteBuffer(buffer);
+      }
+      trainProgram = lineProgram = null;
+      trainBuffer = trailBuffer = linkBuffer = null;
+      map = null;
+    },
+
+    render(gl, options) {
+      if (!map || !trainProgram || !lineProgram || !trainBuffer || !trailBuffer || !linkBuffer) return;
+
+      // Shift the projection to ORIGIN in float64 before it drops to float32
+      const m = options.defaultProjectionData.mainMatrix;
+      const matrix = new Float32Array(m);
+      for (let i = 0; i < 4; i++) {
+        matrix[12 + i] = m[i] * ORIGIN.x + m[4 + i] * ORIGIN.y + m[12 + i];
+      }
+
+      const canvas = map.getCanvas();
+      const pixelRatio = canvas.width / canvas.clientWidth || 1;
+      const viewport = [canvas.clientWidth, canvas.clientHeight];
+      const zoom = map.getZoom();
+      const now = performance.now();
+
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+      // Trails and bunching links
+      gl.useProgram(lineProgram.program);
+      gl.uniformMatrix4fv(lineProgram.uniforms.u_matrix, false, matrix);
+      gl.uniform2fv(lineProgram.uniforms.u_viewport, viewport);
+      gl.uniform1f(lineProgram.uniforms.u_world_size, 512 * 2 ** zoom);
+
+      if (animator.trailsVersion !== trailsDrawn.version && now - trailsDrawn.at >= TRAIL_REFRESH) {
+        trailVertices = writeTrails();
+        gl.bindBuffer(gl.ARRAY_BUFFER, trailBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Uint8Array(trailData, 0, trailVertices * LINE_VERTEX_BYTES), gl.DYNAMIC_DRAW);
+        trailsDrawn = { version: animator.trailsVersion, at: now };
+      }
+      drawLines(gl, trailBuffer, trailVertices, TRAIL_WIDTH, 0);
+
+      linkVertices = writeLinks();
+      gl.bindBuffer(gl.ARRAY_BUFFER, linkBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, new Uint8Array(linkData, 0, linkVertices * LINE_VERTEX_BYTES), gl.DYNAMIC_DRAW);
+      drawLines(gl, linkBuffer, linkVertices, LINK_WIDTH, LINK_DASH);
+
+      // Trains: glow for all of them first, then dots and rings on top
+      const vertices = writeTrains();
+      if (vertices === 0) return;
+
+      const rings = MARKS.map((mark) => RINGS[mark]);
+      const ringRadii = rings.map((ring) => zoomInterpolate(zoom, ring.radius));
+      const glowRadius = zoomInterpolate(zoom, GLOW_RADIUS);
+      const extent = Math.max(glowRadius, ...rings.map((ring, i) => ringRadii[i] + ring.width)) + 1;
+
+      gl.useProgram(trainProgram.program);
+      const { uniforms } = trainProgram;
+      gl.uniformMatrix4fv(uniforms.u_matrix, false, matrix);
+      gl.uniform2fv(uniforms.u_viewport, viewport);
+      gl.uniform1f(uniforms.u_extent, extent);
+      gl.uniform1f(uniforms.u_pixel, 1 / pixelRatio);
+      gl.uniform1f(uniforms.u_glow_radius, glowRadius);
+      gl.uniform1f(uniforms.u_dot_radius, zoomInterpolate(zoom, DOT_RADIUS));
+      gl.uniform4fv(uniforms.u_ring_color, [
+        0, 0, 0, 0,
+        ...rings.flatMap(({ color: [r, g, b, a] }) => [r / 255, g / 255, b / 255, a]),
+      ]);
+      gl.uniform2fv(uniforms.u_ring, [0, 0, ...rings.flatMap((ring, i) => [ringRadii[i], ring.width])]);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, trainBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, new Uint8Array(trainData, 0, vertices * TRAIN_VERTEX_BYTES), gl.DYNAMIC_DRAW);
+      withAttributes(gl, trainProgram, trainBuffer, TRAIN_VERTEX_BYTES, [
+        ['a_pos', 2, gl.FLOAT, false],
+        ['a_color', 4, gl.UNSIGNED_BYTE, true],
+        ['a_style', 4, gl.UNSIGNED_BYTE, false],
+        ['a_motion', 3, gl.FLOAT, false],
+      ], () => {
+        for (const pass of [0, 1]) {
+          gl.uniform1f(uniforms.u_pass, pass);
+          gl.drawArrays(gl.TRIANGLES, 0, vertices);
+        }
+      });
+    },
+
+    setFilter(next) {
+      filter = next;
+      trailsDrawn = { ...trailsDrawn, version: -1 };
+      map?.triggerRepaint();
+    },
+
+    setMarked(mark, trackingIds) {
+      marked.set(mark, new Set(trackingIds));
+      map?.triggerRepaint();
+    },
+
+    setLinks(pairs) {
+      links = pairs;
+      map?.triggerRepaint();
+    },
+
+    hitTest(point) {
+      if (!map) return null;
+      const { x, y } = maplibregl.Point.convert(point);
+      const radius = zoomInterpolate(map.getZoom(), DOT_RADIUS) + STROKE_WIDTH + HIT_TOLERANCE;
+      const { frame } = animator;
+      let best: string | null = null;
+      let bestDistance = radius;
+
+      for (let i = 0; i < frame.count; i++) {
+        if (opacityFor(frame.trains[i].lineId, frame.trains[i].lineName) === 0) continue;
+        const screen = map.project([frame.coordinates[i * 2], frame.coordinates[i * 2 + 1]]);
+
+        // Where the shader moved it to, ignoring pitch: a few px either way
+        const shift = (LINE_OFFSETS[frame.trains[i].lineName] ?? 0) * frame.drawnDirections[i];
+        const angle = ((frame.headings[i] - map.getBearing()) * Math.PI) / 180;
+        if (shift && !Number.isNaN(angle)) {
+          screen.x += Math.cos(angle) * shift;
+          screen.y += Math.sin(angle) * shift;
+        }
+
+        const distance = Math.hypot(screen.x - x, screen.y - y);
+        if (distance <= bestDistance) {
+          best = frame.ids[i];
+          bestDistance = distance;
+        }
+      }
+
+      return best;
+    },
+  };
+}
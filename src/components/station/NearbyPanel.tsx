@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { getLineColor } from '../../lib/lineColors';
+import type { NearbyStation } from '../../lib/nearbyStations';
+import type { StationArrival } from '../../lib/stationArrivals';
+import type { LocateStatus, UserLocation } from '../../hooks/useLocateMe';
+
+interface NearbyPanelProps {
+  location: UserLocation | null;
+  status: LocateStatus;
+  error: string | null;
+  stations: NearbyStation[];
+  arrivals: StationArrival[][]; // per station, soonest first
+  dataUpdatedAt: number; // when the predictions were received
+  clock?: () => number; // replay time when showing a recording
+  onLocate: () => void;
+  onStartPinning: () => void;
+  onSelectStation: (stationId: string) => void;
+  onShowTrain: (trackingId: string) => void;
+  onClose: () => void;
+}
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+function formatMinutes(seconds: number): string {
+  if (seconds <= 30) return 'due';
+  return `${Math.round(seconds / 60)} min`;
+}
+
+export function NearbyPanel({
+  location,
+  status,
+  error,
+  stations,
+  arrivals,
+  dataUpdatedAt,
+  clock = Date.now,
+  onLocate,
+  onStartPinning,
+  onSelectStation,
+  onShowTrain,
+  onClose,
+}: NearbyPanelProps) {
+  // Tick so countdowns run between polls
+  const [now, setNow] = useState(clock);
+  useEffect(() => {
+    const interval = setInterval(() => setNow(clock()), 1000);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  if (!location && status === 'idle') {
+    return (
+      <div className="absolute bottom-4 left-4 bg-black/70 text-white px-3 py-2 rounded text-sm">
+        <div className="flex items-center gap-3 text-xs">
+          <button type="button" onClick={onLocate} className="text-sky-400">
+            Near me
+          </button>
+          <button type="button" onClick={onStartPinning} className="text-gray-400 hover:text-white">
+            Drop a pin
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const elapsed = Math.max(0, (now - dataUpdatedAt) / 1000);
+
+  return (
+    <div className="absolute bottom-4 left-4 w-80 max-h-[60vh] overflow-y-auto bg-black/85 text-white rounded shadow-lg">
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-700">
+        <div>
+          <h2 className="font-semibold">Nearby</h2>
+          <p className="text-xs text-gray-400">
+            {status === 'locating' && 'Finding your location...'}
+            {status === 'pinning' && 'Click the map to drop a pin'}
+            {status === 'idle' && location?.source === 'gps' && (
+              <>
+                Your location
+                {location.accuracy !== null && ` (±${formatDistance(location.accuracy)})`}
+                {' · '}
+                <button type="button" onClick={onStartPinning} className="text-sky-400 hover:text-sky-300">
+                  use a pin
+                </button>
+              </>
+            )}
+            {status === 'idle' && location?.source === 'pin' && (
+              <>
+                Dropped pin
+                {' · '}
+                <button type="button" onClick={onStartPinning} className="text-sky-400 hover:text-sky-300">
+                  move
+                </button>
+                {' · '}
+                <button type="button" onClick={onLocate} className="text-sky-400 hover:text-sky-300">
+                  locate me
+                </button>
+              </>
+            )}
+          </p>
+          {error && <p className="text-xs text-amber-400">{error}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-lg leading-none"
+          aria-label="Close nearby stations"
+        >
+          ×
+        </button>
+      </div>
+
+      {location && status === 'idle' && stations.length === 0 && (
+        <p className="px-4 py-3 text-sm text-gray-400">No stations within walking distance</p>
+      )}
+
+      {stations.map((station, i) => (
+        <div key={station.stationIds[0]} className="px-4 py-2 border-b border-gray-800 last:border-b-0">
+          <div className="flex items-baseline justify-between gap-2">
+            <button
+              type="button"
+              onClick={() => onSelectStation(station.stationIds[0])}
+              className="font-medium text-sm truncate hover:underline text-left"
+            >
+              {station.name}
+            </button>
+            <span className="text-xs text-gray-400 shrink-0">
+              {formatDistance(station.meters)} · {Math.max(1, Math.round(station.walkingSeconds / 60))} min walk
+            </span>
+          </div>
+          <div className="flex gap-1 my-1">
+            {station.lines.map((lineName) => (
+              <span
+                key={lineName}
+                className="w-3 h-1.5 rounded-sm"
+                style={{ backgroundColor: getLineColor(lineName) }}
+                title={lineName}
+              />
+            ))}
+          </div>
+          {(arrivals[i] || []).length === 0 && (
+            <p className="text-xs text-gray-500">No trains predicted right now</p>
+          )}
+          {(arrivals[i] || []).map((arrival) => (
+            <button
+              key={arrival.trackingId}
+              type="button"
+              onClick={() => onShowTrain(arrival.trackingId)}
+              className="flex items-center gap-2 w-full text-xs text-left hover:bg-white/10 rounded px-1"
+            >
+              <span className="w-1 h-3 rounded-sm shrink-0" style={{ backgroundColor: getLineColor(arrival.lineName) }} />
+              <span className="truncate flex-1">{arrival.destination}</span>
+              <span className="font-mono text-gray-300">{formatMinutes(arrival.timeToStation - elapsed)}</span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
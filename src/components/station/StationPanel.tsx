@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { getLineColor } from '../../lib/lineColors';
+import { getStationArrivals, groupArrivals } from '../../lib/stationArrivals';
+import type { StationRecord } from '../../lib/stationLookup';
+import type { TrainWithPosition } from '../../types/train';
+
+interface StationPanelProps {
+  station: StationRecord;
+  trains: TrainWithPosition[];
+  dataUpdatedAt: number; // when the predictions were received
+  clock?: () => number; // replay time when showing a recording
+  onShowTrain: (trackingId: string) => void;
+  onPlanFrom?: (stationId: string) => void;
+  onPlanTo?: (stationId: string) => void;
+  onClose: () => void;
+}
+
+const ARRIVALS_PER_PLATFORM = 4;
+
+function formatCountdown(seconds: number): string {
+  if (seconds <= 30) return 'due';
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return minutes > 0 ? `${minutes}:${secs.toString().padStart(2, '0')}` : `${secs}s`;
+}
+
+export function StationPanel({
+  station,
+  trains,
+  dataUpdatedAt,
+  clock = Date.now,
+  onShowTrain,
+  onPlanFrom,
+  onPlanTo,
+  onClose,
+}: StationPanelProps) {
+  // Tick every second so countdowns run between polls
+  const [now, setNow] = useState(clock);
+  useEffect(() => {
+    const interval = setInterval(() => setNow(clock()), 1000);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  const elapsed = Math.max(0, (now - dataUpdatedAt) / 1000);
+  const lines = groupArrivals(getStationArrivals(trains, station.id));
+
+  return (
+    <div className="absolute bottom-4 left-4 w-80 max-h-[60vh] overflow-y-auto bg-black/85 text-white rounded shadow-lg">
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-700">
+        <div>
+          <h2 className="font-semibold">{station.name}</h2>
+          <p className="text-xs text-gray-400">Departures</p>
+          {(onPlanFrom || onPlanTo) && (
+            <div className="flex gap-3 mt-1 text-xs">
+              {onPlanFrom && (
+                <button type="button" onClick={() => onPlanFrom(station.id)} className="text-sky-400 hover:text-sky-300">
+                  Journey from here
+                </button>
+              )}
+              {onPlanTo && (
+                <button type="button" onClick={() => onPlanTo(station.id)} className="text-sky-400 hover:text-sky-300">
+                  Journey to here
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-lg leading-none"
+          aria-label="Close station panel"
+        >
+          ×
+        </button>
+      </div>
+
+      {lines.length === 0 && (
+        <p className="px-4 py-3 text-sm text-gray-400">No trains predicted right now.</p>
+      )}
+
+      {lines.map((line) => (
+        <div key={line.lineName} className="px-4 py-2">
+          <div
+            className="text-sm font-semibold pb-1 mb-1 border-b-2"
+            style={{ borderColor: getLineColor(line.lineName) }}
+          >
+            {line.lineName}
+          </div>
+          {line.platforms.map((platform) => (
+            <div key={platform.platformName} className="mb-2">
+              <div className="text-xs text-gray-400">{platform.platformName}</div>
+              {platform.arrivals.slice(0, ARRIVALS_PER_PLATFORM).map((arrival) => (
+                <div key={arrival.trackingId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{arrival.destination}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className="font-mono text-yellow-300">
+                      {formatCountdown(arrival.timeToStation - elapsed)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onShowTrain(arrival.trackingId)}
+                      className="text-xs text-sky-400 hover:underline"
+                    >
+                      show on map
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
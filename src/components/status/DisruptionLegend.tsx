@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { getLineColor } from '../../lib/lineColors';
+import type { LineStatus } from '../../types/status';
+
+interface DisruptionLegendProps {
+  statuses: LineStatus[];
+}
+
+export function DisruptionLegend({ statuses }: DisruptionLegendProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const disrupted = statuses.filter((status) => status.severity !== 'good' && status.severity !== 'info');
+
+  return (
+    <div className="bg-black/70 text-white px-3 py-2 rounded text-sm w-72">
+      <div className="text-xs text-gray-400 mb-1">Line status</div>
+      {disrupted.length === 0 && (
+        <div className="flex items-center gap-2">
+          <span className="w-2 h-2 bg-green-500 rounded-full" />
+          Good service on all lines
+        </div>
+      )}
+      {disrupted.map((status) => (
+        <div key={status.lineId} className="py-1">
+          <button
+            type="button"
+            onClick={() => setExpanded(expanded === status.lineId ? null : status.lineId)}
+            className="flex w-full items-center gap-2 text-left"
+          >
+            <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: getLineColor(status.lineName) }} />
+            <span className="font-medium">{status.lineName}</span>
+            <span className="ml-auto text-xs text-amber-400">
+              {status.disruptions.map((disruption) => disruption.description).join(', ')}
+            </span>
+          </button>
+          {expanded === status.lineId && status.disruptions.map((disruption, idx) => (
+            <p key={idx} className="text-xs text-gray-300 mt-1">
+              {disruption.reason || disruption.description}
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
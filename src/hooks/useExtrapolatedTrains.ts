@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import type { Train, TrainsResponse } from '../types/train';
+import { advanceTrains } from '../lib/extrapolation';
+
+const REFRESH_INTERVAL = 10000; // As often as the feed would have updated
+
+interface ExtrapolatedTrains {
+  trains: Train[] | undefined;
+  timestamp: number; // when the trains' predictions count down from
+}
+
+// The trains to show: the response as is while it's live, or moved on by
+// its predictions while offline so the map doesn't freeze on old positions.
+// `dataUpdatedAt` is when the live response arrived.
+export function useExtrapolatedTrains(
+  data: TrainsResponse | undefined,
+  dataUpdatedAt: number,
+  offline: boolean
+): ExtrapolatedTrains {
+  const [advanced, setAdvanced] = useState<ExtrapolatedTrains>({ trains: undefined, timestamp: 0 });
+
+  useEffect(() => {
+    if (!offline || !data) return;
+
+    const refresh = () => {
+      const now = Date.now();
+      setAdvanced({ trains: advanceTrains(data.trains, (now - data.timestamp) / 1000), timestamp: now });
+    };
+    const timeout = setTimeout(refresh, 0);
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [data, offline]);
+
+  return offline ? advanced : { trains: data?.trains, timestamp: dataUpdatedAt };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef, useState } from 'react';
+import type { TrainWithPosition } from '../types/train';
+import { computeHeadways, DEFAULT_HEADWAY_OPTIONS } from '../lib/headways';
+import type { HeadwayGroup, HeadwayOptions } from '../lib/headways';
+
+const REFRESH_INTERVAL = 2000; // Predictions change per poll, not per frame
+
+// Headways for whatever positions are on the map, live or replayed.
+// Only computed while `enabled`.
+export function useHeadways(positions: TrainWithPosition[], enabled: boolean) {
+  const [options, setOptions] = useState<HeadwayOptions>(DEFAULT_HEADWAY_OPTIONS);
+  const [groups, setGroups] = useState<HeadwayGroup[]>([]);
+  const positionsRef = useRef(positions);
+
+  useEffect(() => {
+    positionsRef.current = positions;
+  }, [positions]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const refresh = () => setGroups(computeHeadways(positionsRef.current, options));
+    const timeout = setTimeout(refresh, 0);
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [enabled, options]);
+
+  return { groups: enabled ? groups : [], options, setOptions };
+}
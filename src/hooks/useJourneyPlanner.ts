@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { TrainWithPosition } from '../types/train';
+import { planJourney, planRoute } from '../lib/journeyPlanner';
+import type { JourneyOption } from '../lib/journeyPlanner';
+import { getStationById } from '../lib/stationLookup';
+import { getSearchParam, setSearchParams } from '../lib/urlState';
+
+const REFRESH_INTERVAL = 1000; // Departure countdowns tick every second
+const OPTION_COUNT = 3;
+
+function readStation(param: string): string | null {
+  const id = getSearchParam(param);
+  return id && getStationById(id) ? id : null;
+}
+
+// A→B journey between stations, kept in the URL as ?from=<id>&to=<id>.
+// The route is fixed by the network; the options on it follow the trains.
+export function useJourneyPlanner(
+  positions: TrainWithPosition[],
+  dataTimestamp: number,
+  clock: () => number = Date.now
+) {
+  const [fromId, setFromId] = useState<string | null>(() => readStation('from'));
+  const [toId, setToId] = useState<string | null>(() => readStation('to'));
+  const [options, setOptions] = useState<JourneyOption[]>([]);
+
+  const latest = useRef({ positions, dataTimestamp, clock });
+  useEffect(() => {
+    latest.current = { positions, dataTimestamp, clock };
+  }, [positions, dataTimestamp, clock]);
+
+  useEffect(() => {
+    setSearchParams({ from: fromId, to: toId });
+  }, [fromId, toId]);
+
+  const route = useMemo(
+    () => (fromId && toId && fromId !== toId ? planRoute(fromId, toId) : null),
+    [fromId, toId]
+  );
+
+  useEffect(() => {
+    if (!route) return;
+
+    const refresh = () => {
+      const { positions, dataTimestamp, clock } = latest.current;
+      setOptions(planJourney(route, positions, clock(), dataTimestamp, OPTION_COUNT));
+    };
+    const timeout = setTimeout(refresh, 0);
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [route]);
+
+  const swap = useCallback(() => {
+    setFromId(toId);
+    setToId(fromId);
+  }, [fromId, toId]);
+
+  const clear = useCallback(() => {
+    setFromId(null);
+    setToId(null);
+  }, []);
+
+  return {
+    fromId,
+    toId,
+    setFrom: setFromId,
+    setTo: setToId,
+    swap,
+    clear,
+    route,
+    options: route ? options : [],
+  };
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { UNDERGROUND_LINES } from '../lib/lineColors';
+import { getLineDisplayName, getLineIdByName } from '../lib/lines';
+import { MODE_IDS, parseModes } from '../lib/modes';
+import type { ModeId } from '../lib/modes';
+import { getSearchParam, setSearchParams } from '../lib/urlState';
+
+// Opacity left to unselected lines, as a fraction, in focus mode
+export const FOCUS_DIM = 0.15;
+
+export interface LineSelection {
+  lines: string[]; // Display names of the chosen lines, empty means all
+  focus: boolean; // Dim the rest instead of hiding them
+  modes: ModeId[]; // Modes shown on the map, never empty
+}
+
+function readSelection(): LineSelection {
+  const lines = (getSearchParam('lines') || '')
+    .split(',')
+    .map((id) => getLineDisplayName(id.trim()))
+    .filter((name) => UNDERGROUND_LINES.includes(name));
+
+  return {
+    lines,
+    focus: lines.length > 0 && getSearchParam('focus') === '1',
+    modes: parseModes(getSearchParam('modes')),
+  };
+}
+
+// Which lines and modes are shown, kept in the URL as
+// ?lines=victoria,jubilee&focus=1&modes=tube,dlr
+export function useLineSelection() {
+  const [selection, setSelection] = useState<LineSelection>(readSelection);
+
+  useEffect(() => {
+    setSearchParams({
+      lines: selection.lines.map((name) => getLineIdByName(name) || name).join(',') || null,
+      focus: selection.focus ? '1' : null,
+      modes: selection.modes.length < MODE_IDS.length ? selection.modes.join(',') : null,
+    });
+  }, [selection]);
+
+  const toggleLine = useCallback((lineName: string) => {
+    setSelection((current) => {
+      const lines = current.lines.includes(lineName)
+        ? current.lines.filter((name) => name !== lineName)
+        : [...current.lines, lineName];
+      return { ...current, lines, focus: current.focus && lines.length > 0 };
+    });
+  }, []);
+
+  const setFocus = useCallback((focus: boolean) => {
+    setSelection((current) => ({ ...current, focus: focus && current.lines.length > 0 }));
+  }, []);
+
+  // Turning off the last mode would leave an empty map, so it's ignored
+  const toggleMode = useCallback((mode: ModeId) => {
+    setSelection((current) => {
+      const modes = current.modes.includes(mode)
+        ? current.modes.filter((id) => id !== mode)
+        : MODE_IDS.filter((id) => id === mode || current.modes.includes(id));
+      return modes.length > 0 ? { ...current, modes } : current;
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelection((current) => ({ ...current, lines: [], focus: false }));
+  }, []);
+
+  return { selection, toggleLine, setFocus, toggleMode, clear };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import type { LineStatusResponse } from '../types/status';
+
+async function fetchLineStatus(): Promise<LineStatusResponse> {
+  const response = await fetch('/api/status');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch line status: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function useLineStatus() {
+  return useQuery({
+    queryKey: ['line-status'],
+    queryFn: fetchLineStatus,
+    refetchInterval: 60000, // Status changes far less often than arrivals
+    staleTime: 55000,
+    retry: 2,
+  });
+}
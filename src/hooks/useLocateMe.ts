@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { TrainWithPosition } from '../types/train';
+import { findNearbyStations, getNearbyArrivals } from '../lib/nearbyStations';
+import type { NearbyStation } from '../lib/nearbyStations';
+import type { StationArrival } from '../lib/stationArrivals';
+import type { ModeId } from '../lib/modes';
+
+export interface UserLocation {
+  position: [number, number];
+  source: 'gps' | 'pin';
+  accuracy: number | null; // metres, from the device
+}
+
+// 'pinning' waits for a map click, either by choice or because the device
+// couldn't (or wouldn't) say where it is
+export type LocateStatus = 'idle' | 'locating' | 'pinning';
+
+const REFRESH_INTERVAL = 2000; // Predictions change per poll, not per frame
+const ARRIVALS_PER_STATION = 3;
+
+const GEOLOCATION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 10000,
+  maximumAge: 60000,
+};
+
+function describeError(error: GeolocationPositionError): string {
+  if (error.code === error.PERMISSION_DENIED) return 'Location permission denied';
+  if (error.code === error.TIMEOUT) return 'Timed out finding your location';
+  return "Couldn't find your location";
+}
+
+// Where the user is, from the Geolocation API or a pin dropped on the map,
+// with the stations nearby and the next trains into each
+export function useLocateMe(positions: TrainWithPosition[], modes: ModeId[]) {
+  const [location, setLocation] = useState<UserLocation | null>(null);
+  const [status, setStatus] = useState<LocateStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [arrivals, setArrivals] = useState<StationArrival[][]>([]);
+
+  const positionsRef = useRef(positions);
+  useEffect(() => {
+    positionsRef.current = positions;
+  }, [positions]);
+
+  const locate = useCallback(() => {
+    setError(null);
+    if (!('geolocation' in navigator)) {
+      setError("This browser can't share your location");
+      setStatus('pinning');
+      return;
+    }
+
+    setStatus('locating');
+    navigator.geolocation.getCurrentPosition(
+      (result) => {
+        setLocation({
+          position: [result.coords.longitude, result.coords.latitude],
+          source: 'gps',
+          accuracy: result.coords.accuracy,
+        });
+        setStatus('idle');
+      },
+      (geolocationError) => {
+        setError(describeError(geolocationError));
+        setStatus('pinning');
+      },
+      GEOLOCATION_OPTIONS
+    );
+  }, []);
+
+  const startPinning = useCallback(() => {
+    setError(null);
+    setStatus('pinning');
+  }, []);
+
+  const dropPin = useCallback((position: [number, number]) => {
+    setLocation({ position, source: 'pin', accuracy: null });
+    setError(null);
+    setStatus('idle');
+  }, []);
+
+  const clear = useCallback(() => {
+    setLocation(null);
+    setError(null);
+    setStatus('idle');
+  }, []);
+
+  const stations: NearbyStation[] = useMemo(
+    () => (location ? findNearbyStations(location.position, { modes }) : []),
+    [location, modes]
+  );
+
+  useEffect(() => {
+    if (stations.length === 0) return;
+
+    const refresh = () => setArrivals(stations.map((station) =>
+      getNearbyArrivals(positionsRef.current, station).slice(0, ARRIVALS_PER_STATION)
+    ));
+    const timeout = setTimeout(refresh, 0);
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [stations]);
+
+  // Trains on their way into any of the nearby stations
+  const approachingTrainIds = useMemo(
+    () => (stations.length > 0 ? [...new Set(arrivals.flat().map((arrival) => arrival.trackingId))] : []),
+    [stations, arrivals]
+  );
+
+  return {
+    location,
+    status,
+    error,
+    locate,
+    startPinning,
+    dropPin,
+    clear,
+    stations,
+    arrivals: stations.length > 0 ? arrivals : [],
+    approachingTrainIds,
+  };
+}
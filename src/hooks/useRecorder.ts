@@ -0,0 +1,23 @@
+import { useEffect, useRef, useState } from 'react';
+import type { TrainsResponse } from '../types/train';
+import { browserRecordingStore } from '../lib/recordingStore';
+import { trainsCursor } from '../lib/trainsDelta';
+
+// While switched on, stores every new version of the live feed in IndexedDB
+export function useRecorder(data: TrainsResponse | undefined) {
+  const [recording, setRecording] = useState(false);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const recordedCursor = useRef('');
+
+  useEffect(() => {
+    if (!recording || !data || trainsCursor(data) === recordedCursor.current) return;
+    recordedCursor.current = trainsCursor(data);
+
+    browserRecordingStore
+      .add(data)
+      .then(() => setRecordedCount((count) => count + 1))
+      .catch((error) => console.error('Error recording trains:', error));
+  }, [recording, data]);
+
+  return { recording, setRecording, recordedCount };
+}
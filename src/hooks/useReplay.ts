@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RecordingSource } from '../types/recording';
+import type { TrainsResponse } from '../types/train';
+import { browserRecordingStore, createServerRecordingSource } from '../lib/recordingStore';
+
+export type ReplaySourceId = 'browser' | 'server';
+
+const SOURCES: Record<ReplaySourceId, RecordingSource> = {
+  browser: browserRecordingStore,
+  server: createServerRecordingSource(),
+};
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60];
+const DEFAULT_SPEED = 10;
+const TICK_INTERVAL = 250; // ms between scrubber updates while playing
+
+interface OpenRecording {
+  source: ReplaySourceId;
+  timestamps: number[];
+}
+
+// Replay time is anchored at a point in the recording and the wall-clock
+// moment it was set, and runs `speed` times faster than real time
+interface ReplayAnchor {
+  time: number;
+  wall: number;
+  speed: number;
+  playing: boolean;
+}
+
+// Index of the last snapshot at or before the time
+function snapshotIndexAt(timestamps: number[], time: number): number {
+  let low = 0;
+  let high = timestamps.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timestamps[mid] <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Time-travel over recorded snapshots. `clock` gives the replay time for
+// useTrainPositions, so recorded trains animate as if they were live.
+export function useReplay() {
+  const [recording, setRecording] = useState<OpenRecording | null>(null);
+  const [snapshot, setSnapshot] = useState<TrainsResponse | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeedState] = useState(DEFAULT_SPEED);
+  const [error, setError] = useState<string | null>(null);
+  const anchor = useRef<ReplayAnchor>({ time: 0, wall: 0, speed: DEFAULT_SPEED, playing: false });
+
+  const clock = useCallback(() => {
+    const { time, wall, speed, playing } = anchor.current;
+    return playing ? time + (Date.now() - wall) * speed : time;
+  }, []);
+
+  const setAnchor = useCallback((update: Partial<ReplayAnchor>) => {
+    anchor.current = { ...anchor.current, time: clock(), wall: Date.now(), ...update };
+    setTime(anchor.current.time);
+  }, [clock]);
+
+  const start = recording?.timestamps[0] ?? 0;
+  const end = recording?.timestamps[recording.timestamps.length - 1] ?? 0;
+
+  // Advance the scrubber, stopping at the end of the recording
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      if (clock() >= end) {
+        setAnchor({ time: end, playing: false });
+        setPlaying(false);
+      } else {
+        setTime(clock());
+      }
+    }, TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [playing, end, clock, setAnchor]);
+
+  // Load the snapshot under the playhead
+  const snapshotTimestamp = recording ? recording.timestamps[snapshotIndexAt(recording.timestamps, time)] : undefined;
+  useEffect(() => {
+    if (!recording || snapshotTimestamp === undefined) return;
+
+    let cancelled = false;
+    SOURCES[recording.source]
+      .get(snapshotTimestamp)
+      .then((loaded) => {
+        if (!cancelled && loaded) setSnapshot(loaded);
+      })
+      .catch((err: Error) => setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [recording, snapshotTimestamp]);
+
+  const open = useCallback(async (source: ReplaySourceId) => {
+    setError(null);
+    try {
+      const timestamps = await SOURCES[source].timestamps();
+      if (timestamps.length === 0) {
+        setError(source === 'server' ? 'No server recordings' : 'Nothing recorded in this browser yet');
+        return;
+      }
+      setAnchor({ time: timestamps[0], playing: false });
+      setPlaying(false);
+      setSnapshot(null);
+      setRecording({ source, timestamps });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open recording');
+    }
+  }, [setAnchor]);
+
+  const close = useCallback(() => {
+    setAnchor({ playing: false });
+    setPlaying(false);
+    setRecording(null);
+    setSnapshot(null);
+  }, [setAnchor]);
+
+  const togglePlaying = useCallback(() => {
+    // Playing from the end starts over
+    const restart = !playing && clock() >= end;
+    setAnchor({ playing: !playing, ...(restart ? { time: start } : {}) });
+    setPlaying(!playing);
+  }, [playing, clock, start, end, setAnchor]);
+
+  const setSpeed = useCallback((value: number) => {
+    setAnchor({ speed: value });
+    setSpeedState(value);
+  }, [setAnchor]);
+
+  const seek = useCallback((value: number) => {
+    setAnchor({ time: Math.min(Math.max(value, start), end) });
+  }, [start, end, setAnchor]);
+
+  return {
+    active: recording !== null,
+    source: recording?.source ?? null,
+    start,
+    end,
+    time,
+    playing,
+    speed,
+    snapshot,
+    error,
+    clock,
+    open,
+    close,
+    togglePlaying,
+    setSpeed,
+    seek,
+  };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+import type { Theme } from '../lib/basemap';
+
+const STORAGE_KEY = 'dudewheresmytube:theme';
+
+// The last choice made here, else whatever the system prefers
+function readTheme(): Theme {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === 'light' || stored === 'dark') return stored;
+  } catch {
+    // Storage disabled; fall through to the system setting
+  }
+  return window.matchMedia?.('(prefers-color-scheme: light)').matches ? 'light' : 'dark';
+}
+
+function saveTheme(theme: Theme) {
+  try {
+    localStorage.setItem(STORAGE_KEY, theme);
+  } catch {
+    // Storage full or disabled; the choice lasts until reload
+  }
+}
+
+// Light or dark map. Only a choice made with the toggle is remembered, so
+// until then the map follows the system setting.
+export function useTheme() {
+  const [theme, setTheme] = useState<Theme>(readTheme);
+
+  const toggleTheme = useCallback(() => {
+    const next = theme === 'dark' ? 'light' : 'dark';
+    setTheme(next);
+    saveTheme(next);
+  }, [theme]);
+
+  return { theme, toggleTheme };
+}
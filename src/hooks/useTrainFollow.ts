@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import maplibregl from 'maplibre-gl';
+import type { TrainWithPosition } from '../types/train';
+import { createTrainPopupContent } from '../components/map/trainPopup';
+import { getSearchParam, setSearchParams } from '../lib/urlState';
+import type { TrainAnimator } from '../lib/trainAnimator';
+
+interface TrainTarget {
+  trainId: string;
+  // Clicked trains are matched by tracking id; a ?follow= link only has the
+  // TfL train id to go on
+  matchBy: 'trackingId' | 'id';
+  follow: boolean;
+}
+
+function readTarget(): TrainTarget | null {
+  const trainId = getSearchParam('follow');
+  return trainId ? { trainId, matchBy: 'id', follow: true } : null;
+}
+
+// The selected train: its popup moves with it and refreshes every poll, and
+// in follow mode the camera stays centred on it until the user pans away.
+// Following is shareable as ?follow=<trainId>. `positions` picks out the
+// train; the animator moves the popup and camera with it every frame.
+export function useTrainFollow(
+  map: RefObject<maplibregl.Map | null>,
+  mapReady: boolean,
+  positions: TrainWithPosition[],
+  animator: TrainAnimator
+) {
+  const [target, setTarget] = useState<TrainTarget | null>(readTarget);
+  const popupRef = useRef<maplibregl.Popup | null>(null);
+  const renderedRef = useRef<{ train: TrainWithPosition; follow: boolean } | null>(null);
+
+  const train = target
+    ? positions.find((t) => (target.matchBy === 'id' ? t.id : t.trackingId) === target.trainId)
+    : undefined;
+  const following = !!target?.follow;
+
+  const selectTrain = useCallback((trackingId: string) => {
+    setTarget({ trainId: trackingId, matchBy: 'trackingId', follow: false });
+  }, []);
+
+  const setFollowing = useCallback((follow: boolean) => {
+    setTarget((current) => (current ? { ...current, follow } : null));
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setTarget(null);
+  }, []);
+
+  // Mirror follow mode into the URL once the train is on the map
+  const followedTrainId = following ? train?.id : undefined;
+  useEffect(() => {
+    if (!target || !target.follow) {
+      setSearchParams({ follow: null });
+    } else if (followedTrainId) {
+      setSearchParams({ follow: followedTrainId });
+    }
+  }, [target, followedTrainId]);
+
+  // Dragging the map hands the camera back to the user
+  useEffect(() => {
+    if (!mapReady || !map.current) return;
+    const mapInstance = map.current;
+
+    const onDragStart = () => setFollowing(false);
+    mapInstance.on('dragstart', onDragStart);
+    return () => {
+      mapInstance.off('dragstart', onDragStart);
+    };
+  }, [map, mapReady, setFollowing]);
+
+  // Open the popup on the train and keep its content current
+  useEffect(() => {
+    if (!mapReady || !map.current) return;
+    const mapInstance = map.current;
+
+    if (!train) {
+      popupRef.current?.remove();
+      popupRef.current = null;
+      renderedRef.current = null;
+      return;
+    }
+
+    if (!popupRef.current) {
+      popupRef.current = new maplibregl.Popup({ closeButton: false, className: 'train-popup' })
+        .setLngLat(train.position)
+        .addTo(mapInstance);
+      popupRef.current.on('close', () => {
+        popupRef.current = null;
+        renderedRef.current = null;
+        clearSelection();
+      });
+    }
+
+    // Content only changes when a poll lands or follow is toggled
+    const rendered = renderedRef.current;
+    if (!rendered || rendered.follow !== following || rendered.train.upcomingStops !== train.upcomingStops
+      || rendered.train.trackingId !== train.trackingId) {
+      popupRef.current.setDOMContent(
+        createTrainPopupContent(train, following, () => setFollowing(!following))
+      );
+      renderedRef.current = { train, follow: following };
+    }
+
+  }, [map, mapReady, train, following, setFollowing, clearSelection]);
+
+  // Keep the popup on the train and the camera on the popup, frame by frame
+  const trackingId = train?.trackingId;
+  useEffect(() => {
+    if (!mapReady || !map.current || !trackingId) return;
+    const mapInstance = map.current;
+
+    const move = () => {
+      const position = animator.getPosition(trackingId);
+      if (!position || !popupRef.current) return;
+      popupRef.current.setLngLat(position);
+      if (following) mapInstance.jumpTo({ center: position });
+    };
+
+    move();
+    return animator.subscribe(move);
+  }, [map, mapReady, animator, trackingId, following]);
+
+  return { selectedTrain: train, following, selectTrain, setFollowing, clearSelection };
+}
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Train, TrainsResponse } from '../types/train';
+import { haversineMeters } from '../lib/geo';
+import { useTrainPositions } from './useTrainPositions';
+import replay from '../test/fixtures/replay-victoria-circle.json';
+
+// Ten polls, 10s apart, of the Victoria and Circle lines, recorded from the
+// TfL simulator's default scenario (upcoming stops cut to three per train)
+const snapshots = replay as TrainsResponse[];
+
+const FRAME = 1000 / 60;
+
+// Nothing on the Underground covers this in a frame; a train that does has
+// teleported rather than moved
+const MAX_JUMP_METERS = 10;
+
+describe('useTrainPositions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays a recording without any train jumping between frames', () => {
+    let now = snapshots[0].timestamp;
+    const clock = () => now;
+
+    const { result, rerender } = renderHook(
+      ({ trains }: { trains: Train[] }) => useTrainPositions(trains, clock),
+      { initialProps: { trains: snapshots[0].trains } }
+    );
+
+    const end = snapshots[snapshots.length - 1].timestamp + 10000;
+    let next = 1;
+    let previous = new Map<string, [number, number]>();
+    let frames = 0;
+    const jumps: string[] = [];
+
+    while (now < end) {
+      now += FRAME;
+      if (next < snapshots.length && now >= snapshots[next].timestamp) {
+        const { trains } = snapshots[next++];
+        act(() => rerender({ trains }));
+      }
+      act(() => vi.advanceTimersToNextFrame());
+      frames++;
+
+      const current = new Map<string, [number, number]>();
+      for (const train of result.current.animator.getPositions()) {
+        current.set(train.trackingId, train.position);
+        const last = previous.get(train.trackingId);
+        if (!last) continue;
+
+        const jump = haversineMeters(last, train.position);
+        if (jump > MAX_JUMP_METERS) {
+          jumps.push(`${train.trackingId} moved ${Math.round(jump)}m at +${Math.round(now - snapshots[0].timestamp)}ms`);
+        }
+      }
+      previous = current;
+    }
+
+    expect(frames).toBeGreaterThan(5000);
+    expect(previous.size).toBeGreaterThan(snapshots[snapshots.length - 1].trains.length * 0.9);
+    expect(jumps).toEqual([]);
+  });
+
+  it('hands React a snapshot of the positions every half second', () => {
+    const { result } = renderHook(() => useTrainPositions(snapshots[0].trains, () => snapshots[0].timestamp));
+    expect(result.current.positions).toEqual([]);
+
+    act(() => vi.advanceTimersByTime(520));
+    expect(result.current.positions.length).toBe(result.current.animator.getPositions().length);
+    expect(result.current.positions.length).toBeGreaterThan(0);
+  });
+});
@@ -1,22 +1,142 @@
-import { useQuery } from '@tanstack/react-query';
-import type { TrainsResponse } from '../types/train';
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TrainsPatch, TrainsResponse } from '../types/train';
+import { isTrainsPatch, reduceTrains, trainsCursor } from '../lib/trainsDelta';
+import { loadLastTrains, saveLastTrains } from '../lib/trainsCache';
 
-async function fetchTrains(): Promise<TrainsResponse> {
-  const response = await fetch('/api/trains');
+const STREAM_URL = '/api/stream';
+const STREAM_RETRY_DELAY = 30000; // Try the stream again after falling back
+
+async function requestTrains(url: string): Promise<TrainsResponse | TrainsPatch> {
+  const response = await fetch(url);
   if (!response.ok) {
     throw new Error(`Failed to fetch trains: ${response.status}`);
   }
   return response.json();
 }
 
+// Ask only for what changed since the cached sequence, then merge it in so
+// consumers always see the full Train[]
+async function fetchTrains(current: TrainsResponse | undefined): Promise<TrainsResponse> {
+  const update = await requestTrains(current ? `/api/trains?since=${trainsCursor(current)}` : '/api/trains');
+  if (!isTrainsPatch(update)) return update;
+
+  const merged = reduceTrains(current, update);
+  if (merged && merged.sequence === update.sequence) return merged;
+
+  // The cache moved on under us (e.g. a stream update), start afresh
+  const full = await requestTrains('/api/trains');
+  if (isTrainsPatch(full)) {
+    throw new Error('Expected full trains list');
+  }
+  return full;
+}
+
+// Live updates pushed over Server-Sent Events into the query cache. Returns
+// whether the stream is currently delivering.
+function useTrainStream(): boolean {
+  const queryClient = useQueryClient();
+  const [streaming, setStreaming] = useState(false);
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      source = new EventSource(STREAM_URL);
+
+      source.addEventListener('snapshot', (e) => {
+        queryClient.setQueryData<TrainsResponse>(['trains'], JSON.parse((e as MessageEvent).data));
+        setStreaming(true);
+      });
+
+      source.addEventListener('delta', (e) => {
+        const patch: TrainsPatch = JSON.parse((e as MessageEvent).data);
+        const current = queryClient.getQueryData<TrainsResponse>(['trains']);
+        const merged = reduceTrains(current, patch);
+
+        if (merged && merged !== current) {
+          queryClient.setQueryData<TrainsResponse>(['trains'], merged);
+        } else {
+          // Out of step with the stream, catch up with a since= fetch
+          void queryClient.invalidateQueries({ queryKey: ['trains'] });
+        }
+      });
+
+      source.onerror = () => {
+        // Polling takes over while EventSource reconnects; if it has given
+        // up entirely, start a fresh connection later
+        setStreaming(false);
+        if (source?.readyState === EventSource.CLOSED) {
+          retryTimer = setTimeout(connect, STREAM_RETRY_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      source?.close();
+      clearTimeout(retryTimer);
+    };
+  }, [queryClient]);
+
+  return streaming;
+}
+
+// Whether the browser thinks it has a network connection
+function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
+
+// `offline` means the data is the last response that got through (possibly
+// from a previous visit) and no fresh one is coming for now
 export function useTrains() {
-  return useQuery({
+  const queryClient = useQueryClient();
+  const streaming = useTrainStream();
+  const online = useOnline();
+  const [lastTrains] = useState(loadLastTrains);
+
+  const query = useQuery({
     queryKey: ['trains'],
-    queryFn: fetchTrains,
-    refetchInterval: 10000, // Poll every 10 seconds (Vercel caches for 10s)
+    queryFn: () => {
+      // Restored data's sequence is from an earlier visit, likely another
+      // server instance's, so the first fetch after it is always in full
+      const current = queryClient.getQueryData<TrainsResponse>(['trains']);
+      return fetchTrains(current === lastTrains ? undefined : current);
+    },
+    // Start from the last response this browser saw, aged by its timestamp
+    initialData: lastTrains,
+    initialDataUpdatedAt: lastTrains?.timestamp,
+    // Poll every 10 seconds (Vercel caches for 10s), only while the stream is down
+    refetchInterval: streaming ? false : 10000,
     staleTime: 8000, // Consider data fresh for 8 seconds
-    refetchOnWindowFocus: true,
+    refetchOnWindowFocus: !streaming,
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
   });
+
+  useEffect(() => {
+    if (query.data) saveLastTrains(query.data);
+  }, [query.data]);
+
+  // Until the first fetch lands, the restored response is as stale as any
+  const restored = query.data !== undefined && query.data === lastTrains;
+  const offline = Boolean(query.data) && (!online || query.isError || restored);
+
+  return { ...query, streaming, offline };
 }
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { absoluteTileUrl } from './basemap';
+
+describe('absoluteTileUrl', () => {
+  it('keeps the tile placeholders as they are', () => {
+    expect(absoluteTileUrl('/api/basemap/{z}/{x}/{y}.mvt', 'http://localhost:5173'))
+      .toBe('http://localhost:5173/api/basemap/{z}/{x}/{y}.mvt');
+  });
+
+  it('leaves absolute URLs alone', () => {
+    const carto = 'https://a.basemaps.cartocdn.com/dark_nolabels/{z}/{x}/{y}@2x.png';
+    expect(absoluteTileUrl(carto, 'http://localhost:5173')).toBe(carto);
+  });
+});
@@ -0,0 +1,113 @@
+import type maplibregl from 'maplibre-gl';
+import { layers, namedFlavor } from '@protomaps/basemaps';
+
+export type Theme = 'light' | 'dark';
+
+// A local vector extract from the dev server, or CARTO's raster tiles
+export type Basemap =
+  | { type: 'vector'; tiles: string[]; minzoom: number; maxzoom: number; attribution?: string }
+  | { type: 'raster' };
+
+const SOURCE_ID = 'basemap';
+const LAYER_PREFIX = 'basemap-';
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>';
+const CARTO_ATTRIBUTION = `&copy; <a href="https://carto.com/">CARTO</a> ${OSM_ATTRIBUTION}`;
+const PROTOMAPS_ATTRIBUTION = `<a href="https://protomaps.com">Protomaps</a> ${OSM_ATTRIBUTION}`;
+
+// Drawn under CARTO's tiles, so the map still has a ground colour when
+// they can't be had
+const BACKGROUND: Record<Theme, string> = {
+  light: '#e2dfda',
+  dark: '#1f1f1f',
+};
+
+// Paint for the app's own layers that has to read on either ground
+export interface ThemeColors {
+  casing: string;
+  label: string;
+  labelHalo: string;
+  northern: string; // TfL's black on light; black vanishes on dark, so a light grey there
+}
+
+export const THEME_COLORS: Record<Theme, ThemeColors> = {
+  light: { casing: '#000000', label: '#1a1a1a', labelHalo: '#ffffff', northern: '#000000' },
+  dark: { casing: '#ffffff', label: '#ffffff', labelHalo: '#000000', northern: '#e6e6e6' },
+};
+
+// MapLibre needs absolute tile URLs. Joined as strings: URL would
+// percent-encode the {z}/{x}/{y} placeholders MapLibre fills in.
+export function absoluteTileUrl(template: string, origin: string): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(template)) return template;
+  return `${origin.replace(/\/+$/, '')}/${template.replace(/^\/+/, '')}`;
+}
+
+// Ask the dev server for a local vector basemap. Anything other than its
+// TileJSON (no extract configured, a production build, no server) means
+// CARTO's raster tiles.
+export async function fetchBasemap(): Promise<Basemap> {
+  try {
+    const response = await fetch('/api/basemap');
+    if (!response.ok) return { type: 'raster' };
+
+    const tileJson = await response.json();
+    return {
+      type: 'vector',
+      tiles: (tileJson.tiles as string[]).map((tiles) => absoluteTileUrl(tiles, window.location.origin)),
+      minzoom: tileJson.minzoom,
+      maxzoom: tileJson.maxzoom,
+      attribution: tileJson.attribution,
+    };
+  } catch {
+    return { type: 'raster' };
+  }
+}
+
+function basemapSource(basemap: Basemap, theme: Theme): maplibregl.SourceSpecification {
+  if (basemap.type === 'vector') {
+    return {
+      type: 'vector',
+      tiles: basemap.tiles,
+      minzoom: basemap.minzoom,
+      maxzoom: basemap.maxzoom,
+      attribution: basemap.attribution || PROTOMAPS_ATTRIBUTION,
+    };
+  }
+
+  const style = theme === 'dark' ? 'dark_nolabels' : 'light_nolabels';
+  return {
+    type: 'raster',
+    tiles: ['a', 'b', 'c'].map((subdomain) => `https://${subdomain}.basemaps.cartocdn.com/${style}/{z}/{x}/{y}@2x.png`),
+    tileSize: 256,
+    attribution: CARTO_ATTRIBUTION,
+  };
+}
+
+// The Protomaps layers bring their own background and come without
+// labels; station names are the only text on the map
+function basemapLayers(basemap: Basemap, theme: Theme): maplibregl.LayerSpecification[] {
+  if (basemap.type === 'vector') {
+    return layers(SOURCE_ID, namedFlavor(theme))
+      .map((layer) => ({ ...layer, id: `${LAYER_PREFIX}${layer.id}` }) as maplibregl.LayerSpecification);
+  }
+
+  return [
+    { id: `${LAYER_PREFIX}background`, type: 'background', paint: { 'background-color': BACKGROUND[theme] } },
+    { id: `${LAYER_PREFIX}tiles`, type: 'raster', source: SOURCE_ID },
+  ];
+}
+
+// Swap the basemap under the app's layers, which stay as they are.
+// `beforeId` is the lowest of the app's layers, if they've been added yet.
+export function applyBasemap(map: maplibregl.Map, basemap: Basemap, theme: Theme, beforeId?: string) {
+  for (const layer of map.getStyle().layers) {
+    if (layer.id.startsWith(LAYER_PREFIX)) map.removeLayer(layer.id);
+  }
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+
+  map.addSource(SOURCE_ID, basemapSource(basemap, theme));
+  const before = beforeId && map.getLayer(beforeId) ? beforeId : undefined;
+  for (const layer of basemapLayers(basemap, theme)) {
+    map.addLayer(layer, before);
+  }
+}
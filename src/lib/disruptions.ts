@@ -0,0 +1,55 @@
+import type { FeatureCollection, LineString, Position } from 'geojson';
+import type { LineStatus, StatusSeverity } from '../types/status';
+import { findStationPath, getLineGraph } from './trackGeometry';
+import { getModeIdForLine } from './modes';
+
+// Severities that take track out of service and are drawn on the map
+const MAPPED_SEVERITIES: StatusSeverity[] = ['partial', 'suspended', 'closed'];
+
+// Every stretch of a line, for whole-line suspensions
+function allLinePaths(lineName: string): Position[][] {
+  const graph = getLineGraph(lineName);
+  if (!graph) return [];
+
+  const paths: Position[][] = [];
+  for (const edges of graph.adjacency.values()) {
+    for (const edge of edges) {
+      if (edge.from < edge.to) paths.push(edge.coordinates);
+    }
+  }
+  return paths;
+}
+
+// Track sections affected by disruptions, routed along each line's graph
+export function disruptionsToGeoJSON(statuses: LineStatus[]): FeatureCollection<LineString> {
+  const features: FeatureCollection<LineString>['features'] = [];
+
+  for (const status of statuses) {
+    for (const disruption of status.disruptions) {
+      if (!MAPPED_SEVERITIES.includes(disruption.severity)) continue;
+
+      let paths: Position[][] = disruption.affectedStretches
+        .map((stretch) => findStationPath(stretch.fromStationId, stretch.toStationId, status.lineName))
+        .filter((path): path is Position[] => !!path && path.length >= 2);
+
+      // No usable stretch: a full suspension greys out the whole line
+      if (paths.length === 0 && disruption.severity !== 'partial') {
+        paths = allLinePaths(status.lineName);
+      }
+
+      for (const coordinates of paths) {
+        features.push({
+          type: 'Feature',
+          properties: {
+            lineName: status.lineName,
+            mode: getModeIdForLine(status.lineId),
+            severity: disruption.severity,
+          },
+          geometry: { type: 'LineString', coordinates },
+        });
+      }
+    }
+  }
+
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,25 @@
+import type { Train } from '../types/train';
+
+// Trains as the predictions say they'll be `elapsed` seconds later: every
+// stop comes that much closer, stops already reached are dropped and the
+// next one becomes the train's current station. Trains past their last
+// predicted stop are dropped, since nothing says where they went next.
+export function advanceTrains(trains: Train[], elapsed: number): Train[] {
+  if (elapsed <= 0) return trains;
+
+  return trains.flatMap((train) => {
+    const upcomingStops = train.upcomingStops
+      .map((stop) => ({ ...stop, timeToStation: stop.timeToStation - elapsed }))
+      .filter((stop) => stop.timeToStation >= 0);
+    if (upcomingStops.length === 0) return [];
+
+    const next = upcomingStops[0];
+    return [{
+      ...train,
+      currentStation: next.stationName,
+      naptanId: next.naptanId,
+      timeToStation: next.timeToStation,
+      upcomingStops,
+    }];
+  });
+}
@@ -0,0 +1,57 @@
+import type { Position } from 'geojson';
+
+// Geodesic helpers for [lng, lat] positions. Raw degree deltas overstate
+// east-west distances by ~60% at London's latitude, so anything measured or
+// compared goes through here.
+
+const EARTH_RADIUS = 6371008.8; // metres, mean radius
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+// Great-circle distance between two points, in metres
+export function haversineMeters(a: Position, b: Position): number {
+  const lat1 = toRadians(a[1]);
+  const lat2 = toRadians(b[1]);
+  const dLat = lat2 - lat1;
+  const dLng = toRadians(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Length of a path in metres
+export function pathLengthMeters(path: Position[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += haversineMeters(path[i - 1], path[i]);
+  }
+  return length;
+}
+
+export interface SegmentProjection {
+  point: Position; // closest point on the segment
+  t: number; // 0 at a, 1 at b
+  offset: number; // metres from the input point to the segment
+}
+
+// Closest point on the segment a-b. The projection is done on a plane
+// tangent at the point, which is exact enough over a stretch of track.
+export function projectOntoSegment(point: Position, a: Position, b: Position): SegmentProjection {
+  const lngScale = Math.cos(toRadians(point[1]));
+  const ax = (a[0] - point[0]) * lngScale;
+  const ay = a[1] - point[1];
+  const bx = (b[0] - point[0]) * lngScale;
+  const by = b[1] - point[1];
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+
+  let t = 0;
+  if (lengthSquared > 0) {
+    t = Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  }
+
+  const projected: Position = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+  return { point: projected, t, offset: haversineMeters(point, projected) };
+}
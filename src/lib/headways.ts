@@ -0,0 +1,163 @@
+import type { TrainWithPosition, UpcomingStop } from '../types/train';
+
+export interface HeadwayOptions {
+  bunchingSeconds: number; // closer than this is bunched
+  gapSeconds: number; // further apart than this is a gap
+}
+
+export const DEFAULT_HEADWAY_OPTIONS: HeadwayOptions = {
+  bunchingSeconds: 60,
+  gapSeconds: 10 * 60,
+};
+
+export type HeadwayStatus = 'ok' | 'bunched' | 'gap';
+
+// Time between a train and the one running ahead of it, measured at the
+// first station both are still due at
+export interface Headway {
+  trackingId: string;
+  leaderTrackingId: string;
+  stationId: string;
+  stationName: string;
+  seconds: number;
+  status: HeadwayStatus;
+}
+
+// Headways of the trains on one line, direction and branch (trains sharing a
+// destination), ordered front to back
+export interface HeadwayGroup {
+  lineId: string;
+  lineName: string;
+  direction: string;
+  branch: string;
+  headways: Headway[];
+  meanSeconds: number;
+  bunched: number;
+  gaps: number;
+}
+
+interface PredictedArrival {
+  train: TrainWithPosition;
+  seconds: number;
+}
+
+// TfL leaves direction empty on some modes; the platform then tells
+// opposite directions apart
+function directionOf(train: TrainWithPosition, stop: UpcomingStop): string {
+  return train.direction || stop.platformName;
+}
+
+function arrivalKey(train: TrainWithPosition, stop: UpcomingStop): string {
+  return `${train.lineId}|${directionOf(train, stop)}|${stop.naptanId}`;
+}
+
+function classify(seconds: number, options: HeadwayOptions): HeadwayStatus {
+  if (seconds < options.bunchingSeconds) return 'bunched';
+  if (seconds > options.gapSeconds) return 'gap';
+  return 'ok';
+}
+
+// Steps from a train to the front of its chain of leaders. Loops (the
+// Circle) stop when they come back round.
+function chainDepth(trackingId: string, leaders: Map<string, string>): number {
+  const seen = new Set<string>([trackingId]);
+  let depth = 0;
+  let current = leaders.get(trackingId);
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    depth++;
+    current = leaders.get(current);
+  }
+  return depth;
+}
+
+// The train ahead is the one due last before this train at the earliest of
+// its upcoming stations where anyone on the same line and direction is due
+// before it. Trains further ahead have already passed that station.
+export function computeHeadways(
+  trains: TrainWithPosition[],
+  options: HeadwayOptions = DEFAULT_HEADWAY_OPTIONS
+): HeadwayGroup[] {
+  const arrivals = new Map<string, PredictedArrival[]>();
+  for (const train of trains) {
+    for (const stop of train.upcomingStops) {
+      if (!stop.naptanId) continue;
+      const key = arrivalKey(train, stop);
+      arrivals.set(key, [...(arrivals.get(key) || []), { train, seconds: stop.timeToStation }]);
+    }
+  }
+
+  const headways = new Map<string, { headway: Headway; train: TrainWithPosition }>();
+  for (const train of trains) {
+    for (const stop of train.upcomingStops) {
+      if (!stop.naptanId) continue;
+
+      // Equal predictions are ordered by id so a pair can't lead each other
+      const ahead = (arrivals.get(arrivalKey(train, stop)) || []).filter(({ train: other, seconds }) =>
+        other !== train && (seconds < stop.timeToStation
+          || (seconds === stop.timeToStation && other.trackingId < train.trackingId))
+      );
+      if (ahead.length === 0) continue;
+
+      const leader = ahead.reduce((best, arrival) => (arrival.seconds > best.seconds ? arrival : best));
+      const seconds = stop.timeToStation - leader.seconds;
+      headways.set(train.trackingId, {
+        train,
+        headway: {
+          trackingId: train.trackingId,
+          leaderTrackingId: leader.train.trackingId,
+          stationId: stop.naptanId,
+          stationName: stop.stationName,
+          seconds,
+          status: classify(seconds, options),
+        },
+      });
+      break;
+    }
+  }
+
+  const leaders = new Map(Array.from(headways.values(), ({ headway }) => [headway.trackingId, headway.leaderTrackingId]));
+
+  const groups = new Map<string, HeadwayGroup>();
+  for (const { train, headway } of headways.values()) {
+    const direction = train.direction || 'unknown';
+    const key = `${train.lineId}|${direction}|${train.destination}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        lineId: train.lineId,
+        lineName: train.lineName,
+        direction,
+        branch: train.destination,
+        headways: [],
+        meanSeconds: 0,
+        bunched: 0,
+        gaps: 0,
+      };
+      groups.set(key, group);
+    }
+    group.headways.push(headway);
+  }
+
+  for (const group of groups.values()) {
+    group.headways.sort((a, b) => chainDepth(a.trackingId, leaders) - chainDepth(b.trackingId, leaders));
+    group.meanSeconds = group.headways.reduce((sum, h) => sum + h.seconds, 0) / group.headways.length;
+    group.bunched = group.headways.filter((h) => h.status === 'bunched').length;
+    group.gaps = group.headways.filter((h) => h.status === 'gap').length;
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.lineName.localeCompare(b.lineName)
+    || a.direction.localeCompare(b.direction)
+    || a.branch.localeCompare(b.branch)
+  );
+}
+
+// Follower/leader pairs running too close together
+export function getBunchedPairs(groups: HeadwayGroup[]): Array<{ trackingId: string; leaderTrackingId: string }> {
+  return groups.flatMap((group) =>
+    group.headways
+      .filter((headway) => headway.status === 'bunched')
+      .map(({ trackingId, leaderTrackingId }) => ({ trackingId, leaderTrackingId }))
+  );
+}
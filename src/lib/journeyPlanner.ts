@@ -0,0 +1,300 @@
+import type { Position } from 'geojson';
+import type { TrainWithPosition } from '../types/train';
+import { getSameNameStations, getStationById } from './stationLookup';
+import { getLineGraph } from './trackGeometry';
+import { getGeometryLineName, getGeometryLineNames } from './modes';
+import { estimateRunTime } from './positionEstimator';
+import { haversineMeters } from './geo';
+
+// Ride along one line between two stations, without changing
+export interface JourneyLeg {
+  lineName: string; // geometry name, e.g. "London Overground"
+  stationIds: string[]; // every station called at, both ends included
+  path: Position[];
+  runSeconds: number; // typical time on board
+}
+
+export interface JourneyRoute {
+  fromStationId: string;
+  toStationId: string;
+  legs: JourneyLeg[];
+  typicalSeconds: number; // riding plus interchanges, no initial wait
+}
+
+// A leg matched to the train expected to run it. Times are epoch ms.
+export interface BoardedLeg {
+  leg: JourneyLeg;
+  trackingId: string | null; // null when no live train covers the leg
+  lineName: string; // display name of the boarded train's line
+  destination: string | null;
+  departAt: number;
+  arriveAt: number;
+}
+
+export interface JourneyOption {
+  legs: BoardedLeg[];
+  departAt: number;
+  arriveAt: number;
+}
+
+const DWELL_TIME = 30; // seconds at each intermediate stop
+const INTERCHANGE_TIME = 180; // seconds to walk between platforms
+const TYPICAL_WAIT = 180; // seconds, when no prediction covers a leg
+const INTERCHANGE_RADIUS = 600; // metres; same-name stations further apart aren't one complex
+const DEPARTED_GRACE = 20; // seconds a train can be "due" and still catchable
+
+interface RideEdge {
+  to: string;
+  seconds: number;
+  lineName: string;
+  stationId: string;
+  coordinates: Position[] | null; // null for an interchange
+}
+
+// Nodes are "stationId@lineName": being on a platform of that line
+function nodeKey(stationId: string, lineName: string): string {
+  return `${stationId}@${lineName}`;
+}
+
+let network: Map<string, RideEdge[]> | null = null;
+
+// Every line graph joined up at interchanges, built on first use
+function getNetwork(): Map<string, RideEdge[]> {
+  if (network) return network;
+  network = new Map();
+
+  const linesAt = new Map<string, string[]>();
+  const add = (from: string, edge: RideEdge) => {
+    network!.set(from, [...(network!.get(from) || []), edge]);
+  };
+
+  for (const lineName of getGeometryLineNames()) {
+    const graph = getLineGraph(lineName);
+    if (!graph) continue;
+
+    for (const [stationId, edges] of graph.adjacency) {
+      linesAt.set(stationId, [...(linesAt.get(stationId) || []), lineName]);
+      for (const edge of edges) {
+        add(nodeKey(stationId, lineName), {
+          to: nodeKey(edge.to, lineName),
+          seconds: estimateRunTime(edge.coordinates) + DWELL_TIME,
+          lineName,
+          stationId: edge.to,
+          coordinates: edge.coordinates,
+        });
+      }
+    }
+  }
+
+  // Change lines within a station, or to a nearby same-name one
+  for (const [stationId, lines] of linesAt) {
+    const station = getStationById(stationId);
+    const complex = getSameNameStations(stationId).filter((other) =>
+      other.id === stationId
+      || (station && haversineMeters(station.coordinates, other.coordinates) <= INTERCHANGE_RADIUS)
+    );
+
+    for (const other of complex) {
+      for (const fromLine of lines) {
+        for (const toLine of linesAt.get(other.id) || []) {
+          if (other.id === stationId && fromLine === toLine) continue;
+          add(nodeKey(stationId, fromLine), {
+            to: nodeKey(other.id, toLine),
+            seconds: INTERCHANGE_TIME,
+            lineName: toLine,
+            stationId: other.id,
+            coordinates: null,
+          });
+        }
+      }
+    }
+  }
+
+  return network;
+}
+
+// Quickest route by typical running times. A few thousand nodes at most, so
+// Dijkstra with a linear scan for the next node is fast enough.
+export function planRoute(fromStationId: string, toStationId: string): JourneyRoute | null {
+  const graph = getNetwork();
+  const dist = new Map<string, number>();
+  const via = new Map<string, { from: string; edge: RideEdge }>();
+  const visited = new Set<string>();
+
+  // Start on any platform of the origin, and finish on any of the destination
+  for (const key of graph.keys()) {
+    if (key.startsWith(`${fromStationId}@`)) dist.set(key, 0);
+  }
+
+  let target: string | null = null;
+  while (true) {
+    let current: string | null = null;
+    let currentDist = Infinity;
+    for (const [key, d] of dist) {
+      if (!visited.has(key) && d < currentDist) {
+        current = key;
+        currentDist = d;
+      }
+    }
+    if (current === null) break;
+    if (current.startsWith(`${toStationId}@`)) {
+      target = current;
+      break;
+    }
+    visited.add(current);
+
+    for (const edge of graph.get(current) || []) {
+      const candidate = currentDist + edge.seconds;
+      if (candidate < (dist.get(edge.to) ?? Infinity)) {
+        dist.set(edge.to, candidate);
+        via.set(edge.to, { from: current, edge });
+      }
+    }
+  }
+  if (!target) return null;
+
+  // Walk back from the destination, then fold consecutive rides into legs
+  const steps: RideEdge[] = [];
+  for (let key = target; via.has(key); key = via.get(key)!.from) {
+    steps.unshift(via.get(key)!.edge);
+  }
+
+  const legs: JourneyLeg[] = [];
+  let previousStationId = fromStationId;
+  for (const step of steps) {
+    if (!step.coordinates) {
+      previousStationId = step.stationId;
+      continue;
+    }
+
+    const leg = legs[legs.length - 1];
+    const continues = leg && leg.lineName === step.lineName && leg.stationIds[leg.stationIds.length - 1] === previousStationId;
+    if (continues) {
+      leg.stationIds.push(step.stationId);
+      leg.path.push(...step.coordinates.slice(1));
+      leg.runSeconds += step.seconds;
+    } else {
+      legs.push({
+        lineName: step.lineName,
+        stationIds: [previousStationId, step.stationId],
+        path: [...step.coordinates],
+        runSeconds: step.seconds,
+      });
+    }
+    previousStationId = step.stationId;
+  }
+
+  return { fromStationId, toStationId, legs, typicalSeconds: dist.get(target)! };
+}
+
+// Typical time between two calls on a leg, for predictions that stop short
+function typicalSecondsBetween(leg: JourneyLeg, fromIndex: number, toIndex: number): number {
+  return leg.runSeconds * ((toIndex - fromIndex) / (leg.stationIds.length - 1));
+}
+
+interface LegCandidate {
+  train: TrainWithPosition;
+  departAt: number;
+  arriveAt: number;
+}
+
+// Live trains that will run the leg: due at its first station no earlier
+// than `earliest` and heading the leg's way. Predictions often stop short of
+// the leg's end, so the remaining stops only have to follow the leg in order.
+function findLegTrains(
+  leg: JourneyLeg,
+  trains: TrainWithPosition[],
+  earliest: number,
+  dataTimestamp: number
+): LegCandidate[] {
+  const candidates: LegCandidate[] = [];
+  const boardId = leg.stationIds[0];
+  const alightId = leg.stationIds[leg.stationIds.length - 1];
+
+  for (const train of trains) {
+    if (getGeometryLineName(train.lineId) !== leg.lineName) continue;
+
+    const boardIndex = train.upcomingStops.findIndex((stop) => stop.naptanId === boardId);
+    if (boardIndex < 0) continue;
+
+    const departAt = dataTimestamp + train.upcomingStops[boardIndex].timeToStation * 1000;
+    if (departAt < earliest - DEPARTED_GRACE * 1000) continue;
+
+    // Later calls must run along the leg, in order (skipping stops is fine)
+    let legIndex = 0;
+    let arriveAt: number | null = null;
+    let onLeg = true;
+    for (const stop of train.upcomingStops.slice(boardIndex + 1)) {
+      const index = leg.stationIds.indexOf(stop.naptanId, legIndex + 1);
+      if (index < 0) {
+        onLeg = false;
+        break;
+      }
+      legIndex = index;
+      if (stop.naptanId === alightId) {
+        arriveAt = dataTimestamp + stop.timeToStation * 1000;
+        break;
+      }
+    }
+    if (!onLeg || legIndex === 0) continue;
+
+    candidates.push({
+      train,
+      departAt,
+      arriveAt: arriveAt ?? departAt + typicalSecondsBetween(leg, 0, leg.stationIds.length - 1) * 1000,
+    });
+  }
+
+  return candidates.sort((a, b) => a.departAt - b.departAt);
+}
+
+function boardLeg(leg: JourneyLeg, candidate: LegCandidate | undefined, earliest: number): BoardedLeg {
+  if (candidate) {
+    return {
+      leg,
+      trackingId: candidate.train.trackingId,
+      lineName: candidate.train.lineName,
+      destination: candidate.train.destination,
+      departAt: Math.max(candidate.departAt, earliest),
+      arriveAt: candidate.arriveAt,
+    };
+  }
+
+  const departAt = earliest + TYPICAL_WAIT * 1000;
+  return {
+    leg,
+    trackingId: null,
+    lineName: leg.lineName,
+    destination: null,
+    departAt,
+    arriveAt: departAt + leg.runSeconds * 1000,
+  };
+}
+
+// The next few ways to make the journey: one per live train on the first
+// leg, each continuing on the first train that connects. `dataTimestamp` is
+// when the predictions in `trains` were made.
+export function planJourney(
+  route: JourneyRoute,
+  trains: TrainWithPosition[],
+  now: number,
+  dataTimestamp: number,
+  count = 3
+): JourneyOption[] {
+  if (route.legs.length === 0) return [];
+
+  const [first, ...rest] = route.legs;
+  const firstTrains = findLegTrains(first, trains, now, dataTimestamp).slice(0, count);
+
+  // No live train: one typical journey so there's still an estimate
+  const starts = firstTrains.length > 0 ? firstTrains : [undefined];
+
+  return starts.map((candidate) => {
+    const legs = [boardLeg(first, candidate, now)];
+    for (const leg of rest) {
+      const earliest = legs[legs.length - 1].arriveAt + INTERCHANGE_TIME * 1000;
+      legs.push(boardLeg(leg, findLegTrains(leg, trains, earliest, dataTimestamp)[0], earliest));
+    }
+    return { legs, departAt: legs[0].departAt, arriveAt: legs[legs.length - 1].arriveAt };
+  });
+}
@@ -13,13 +13,28 @@ export const LINE_COLORS: Record<string, string> = {
   'Piccadilly': '#003688',
   'Victoria': '#0098D4',
   'Waterloo & City': '#95CDBA',
-  // Additional lines (not in MVP but included in data)
-  'Elizabeth': '#7156A5',
+  'Elizabeth line': '#7156A5',
+  // Overground as a whole, and its named lines
   'London Overground': '#EE7C0E',
+  'Liberty': '#5D6061',
+  'Lioness': '#FAA61A',
+  'Mildmay': '#0077AD',
+  'Suffragette': '#5BBD72',
+  'Weaver': '#823A62',
+  'Windrush': '#ED1B00',
   'DLR': '#00A4A7',
   'Tram': '#84B817',
 };
 
+// Lines sharing track are drawn side by side: px to the right of the way the
+// geometry runs. Trains on these lines sit on the same offset.
+export const LINE_OFFSETS: Record<string, number> = {
+  'Circle': 3,
+  'Hammersmith & City': -3,
+  'District': 0,
+  'Metropolitan': 3,
+};
+
 // TfL line codes used in TrackerNet API
 export const LINE_CODES: Record<string, string> = {
   'B': 'Bakerloo',
@@ -0,0 +1,47 @@
+import type { LineFeed, LineFeedStatus } from '../types/train';
+import { getLineDisplayName } from './lines';
+
+// Every line is fetched every poll (10s) while the budget lasts. A line that
+// missed one poll to the rate limit isn't worth flagging; one that has gone
+// two polls without an update is.
+const DEGRADED_AFTER = 20 * 1000;
+
+export interface DegradedLine {
+  lineId: string;
+  lineName: string;
+  status: LineFeedStatus;
+  fetchedAt: number | null;
+}
+
+const REASONS: Record<LineFeedStatus, string> = {
+  'ok': 'live',
+  'error': 'TfL is returning errors',
+  'rate-limited': 'waiting for the TfL rate limit',
+  'circuit-open': 'paused after repeated TfL errors',
+};
+
+// Lines whose trains aren't live, as of the response's `timestamp`. Lines
+// that failed outright are flagged at once, rate-limited ones once they've
+// gone a while without an update.
+export function getDegradedLines(lines: Record<string, LineFeed> | undefined, timestamp: number): DegradedLine[] {
+  if (!lines) return [];
+
+  return Object.entries(lines)
+    .filter(([, feed]) => !feed.ok && (
+      feed.status !== 'rate-limited' || feed.fetchedAt === null || timestamp - feed.fetchedAt >= DEGRADED_AFTER
+    ))
+    .map(([lineId, feed]) => ({
+      lineId,
+      lineName: getLineDisplayName(lineId),
+      status: feed.status,
+      fetchedAt: feed.fetchedAt,
+    }));
+}
+
+// e.g. "Central: TfL is returning errors, last updated 08:12"
+export function describeDegradedLine(line: DegradedLine): string {
+  const since = line.fetchedAt === null
+    ? 'no update yet'
+    : `last updated ${new Date(line.fetchedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  return `${line.lineName}: ${REASONS[line.status]}, ${since}`;
+}
@@ -0,0 +1,17 @@
+import { MODES } from './modes';
+
+// TfL line IDs for every registered mode (used in Unified API)
+export const LINE_IDS: string[] = MODES.flatMap((mode) => mode.lines.map((line) => line.id));
+
+export const LINE_DISPLAY_NAMES: Record<string, string> = Object.fromEntries(
+  MODES.flatMap((mode) => mode.lines.map((line) => [line.id, line.name]))
+);
+
+export function getLineDisplayName(lineId: string): string {
+  return LINE_DISPLAY_NAMES[lineId] || lineId;
+}
+
+export function getLineIdByName(lineName: string): string | null {
+  const entry = Object.entries(LINE_DISPLAY_NAMES).find(([, name]) => name === lineName);
+  return entry ? entry[0] : null;
+}
@@ -0,0 +1,118 @@
+// Registry of the transport modes the tracker knows about. Each line has a
+// TfL id (Unified API), a display name (colors, UI) and the name it carries
+// in tfl_lines.json / tfl_stations.json, which differs for some lines and is
+// shared by all six Overground lines.
+
+export type ModeId = 'tube' | 'elizabeth-line' | 'overground' | 'dlr' | 'tram';
+
+export interface LineDefinition {
+  id: string;
+  name: string;
+  geometryName: string;
+}
+
+export interface ModeDefinition {
+  id: ModeId;
+  label: string;
+  // NaPTAN id prefixes of the mode's stops, used to pick between
+  // same-named stations (e.g. 910GLIVSTLL vs 940GZZLULVT)
+  stationIdPrefixes: string[];
+  lines: LineDefinition[];
+}
+
+function sameName(id: string, name: string): LineDefinition {
+  return { id, name, geometryName: name };
+}
+
+export const MODES: ModeDefinition[] = [
+  {
+    id: 'tube',
+    label: 'Underground',
+    stationIdPrefixes: ['940GZZLU'],
+    lines: [
+      sameName('bakerloo', 'Bakerloo'),
+      sameName('central', 'Central'),
+      sameName('circle', 'Circle'),
+      sameName('district', 'District'),
+      sameName('hammersmith-city', 'Hammersmith & City'),
+      sameName('jubilee', 'Jubilee'),
+      sameName('metropolitan', 'Metropolitan'),
+      sameName('northern', 'Northern'),
+      sameName('piccadilly', 'Piccadilly'),
+      sameName('victoria', 'Victoria'),
+      sameName('waterloo-city', 'Waterloo & City'),
+    ],
+  },
+  {
+    id: 'elizabeth-line',
+    label: 'Elizabeth line',
+    stationIdPrefixes: ['910G'],
+    lines: [sameName('elizabeth', 'Elizabeth line')],
+  },
+  {
+    id: 'overground',
+    label: 'Overground',
+    stationIdPrefixes: ['910G'],
+    lines: ['Liberty', 'Lioness', 'Mildmay', 'Suffragette', 'Weaver', 'Windrush'].map((name) => ({
+      id: name.toLowerCase(),
+      name,
+      geometryName: 'London Overground',
+    })),
+  },
+  {
+    id: 'dlr',
+    label: 'DLR',
+    stationIdPrefixes: ['940GZZDL'],
+    lines: [sameName('dlr', 'DLR')],
+  },
+  {
+    id: 'tram',
+    label: 'Tram',
+    stationIdPrefixes: ['940GZZCR'],
+    lines: [{ id: 'tram', name: 'Tram', geometryName: 'Tramlink' }],
+  },
+];
+
+export const MODE_IDS: ModeId[] = MODES.map((mode) => mode.id);
+
+// Every way a line can be referred to -> its mode and line definition
+const linesByKey = new Map<string, { mode: ModeDefinition; line: LineDefinition }>();
+for (const mode of MODES) {
+  for (const line of mode.lines) {
+    for (const key of [line.id, line.name, line.geometryName]) {
+      if (!linesByKey.has(key)) linesByKey.set(key, { mode, line });
+    }
+  }
+}
+
+export function getModeIdForLine(lineIdOrName: string): ModeId | null {
+  return linesByKey.get(lineIdOrName)?.mode.id || null;
+}
+
+// Name used for the line in the geometry and station data. Accepts a line
+// id, display name or geometry name; unknown names pass through unchanged.
+export function getGeometryLineName(lineIdOrName: string): string {
+  return linesByKey.get(lineIdOrName)?.line.geometryName || lineIdOrName;
+}
+
+export function getGeometryLineNames(): string[] {
+  return [...new Set(MODES.flatMap((mode) => mode.lines.map((line) => line.geometryName)))];
+}
+
+export function getStationIdPrefixes(lineIdOrName: string): string[] {
+  return linesByKey.get(lineIdOrName)?.mode.stationIdPrefixes || [];
+}
+
+export function getModeLineIds(modes: ModeId[]): string[] {
+  return MODES.filter((mode) => modes.includes(mode.id)).flatMap((mode) => mode.lines.map((line) => line.id));
+}
+
+// Comma-separated mode ids, e.g. from ?modes= or TFL_MODES. Unknown ids are
+// dropped; nothing usable means every mode.
+export function parseModes(value: string | null | undefined): ModeId[] {
+  const modes = (value || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id): id is ModeId => MODE_IDS.includes(id as ModeId));
+  return modes.length > 0 ? [...new Set(modes)] : MODE_IDS;
+}
@@ -0,0 +1,91 @@
+import type { Position } from 'geojson';
+import type { TrainWithPosition } from '../types/train';
+import { getAllStations, getSameNameStations } from './stationLookup';
+import { getModeIdForLine, MODE_IDS } from './modes';
+import type { ModeId } from './modes';
+import { haversineMeters } from './geo';
+import { getStationArrivals } from './stationArrivals';
+import type { StationArrival } from './stationArrivals';
+
+// A station near a point. Same-name platforms close together (Bank and its
+// DLR stop, the Paddingtons) count as one, so arrivals cover all of them.
+export interface NearbyStation {
+  name: string;
+  stationIds: string[]; // nearest first
+  coordinates: [number, number]; // of the nearest platform group
+  lines: string[]; // geometry names of the registered lines served
+  meters: number; // straight line to the nearest platform group
+  walkingSeconds: number;
+}
+
+export interface NearbyOptions {
+  count: number;
+  radius: number; // metres; stations further away aren't "nearby"
+  modes: ModeId[];
+}
+
+const DEFAULT_NEARBY_OPTIONS: NearbyOptions = {
+  count: 4,
+  radius: 2000,
+  modes: MODE_IDS,
+};
+
+const WALKING_SPEED = 1.3; // metres per second (~5 km/h)
+const DETOUR_FACTOR = 1.3; // streets rarely run straight to the entrance
+const COMPLEX_RADIUS = 600; // metres; further apart and same-name stations stay separate
+
+// Rough walk from a straight-line distance, in seconds
+export function estimateWalkingTime(meters: number): number {
+  return (meters * DETOUR_FACTOR) / WALKING_SPEED;
+}
+
+// Closest stations on the given modes, nearest first
+export function findNearbyStations(point: Position, options: Partial<NearbyOptions> = {}): NearbyStation[] {
+  const { count, radius, modes } = { ...DEFAULT_NEARBY_OPTIONS, ...options };
+
+  const candidates = getAllStations()
+    .map((station) => ({
+      station,
+      lines: station.lines.filter((line) => {
+        const mode = getModeIdForLine(line);
+        return mode !== null && modes.includes(mode);
+      }),
+      meters: haversineMeters(point, station.coordinates),
+    }))
+    .filter(({ lines, meters }) => lines.length > 0 && meters <= radius + COMPLEX_RADIUS)
+    .sort((a, b) => a.meters - b.meters);
+
+  const nearby: NearbyStation[] = [];
+  for (const { station, lines, meters } of candidates) {
+    const sameName = getSameNameStations(station.id);
+    const complex = nearby.find((other) =>
+      sameName.some((s) => s.id === other.stationIds[0])
+      && haversineMeters(other.coordinates, station.coordinates) <= COMPLEX_RADIUS
+    );
+    if (complex) {
+      complex.stationIds.push(station.id);
+      complex.lines = [...new Set([...complex.lines, ...lines])];
+      continue;
+    }
+
+    if (meters > radius || nearby.length >= count) continue;
+    nearby.push({
+      name: station.name,
+      stationIds: [station.id],
+      coordinates: station.coordinates,
+      lines: [...new Set(lines)],
+      meters,
+      walkingSeconds: estimateWalkingTime(meters),
+    });
+  }
+
+  return nearby;
+}
+
+// Predicted arrivals across every platform group of a nearby station,
+// soonest first
+export function getNearbyArrivals(trains: TrainWithPosition[], station: NearbyStation): StationArrival[] {
+  return station.stationIds
+    .flatMap((stationId) => getStationArrivals(trains, stationId))
+    .sort((a, b) => a.timeToStation - b.timeToStation);
+}
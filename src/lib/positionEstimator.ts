@@ -0,0 +1,105 @@
+import type { Position } from 'geojson';
+import type { Train } from '../types/train';
+import { findStationByName, resolveStation } from './stationLookup';
+import { findStationPath, getLineGraph, getStationDistances, interpolateAlongPath } from './trackGeometry';
+import { pathLengthMeters } from './geo';
+
+export interface PositionEstimate {
+  position: [number, number];
+  nextStationId: string;
+  previousStationId: string | null;
+  progress: number; // 0 at the previous station, 1 at the next
+  path: Position[] | null; // Track from the previous station to the next
+}
+
+// Average speed between stations including acceleration and braking
+const TYPICAL_RUN_SPEED = 9; // metres per second (~33 km/h)
+const MIN_RUN_TIME = 45; // seconds, even for the shortest hops
+
+// Typical time to run a stretch of track, in seconds
+export function estimateRunTime(path: Position[]): number {
+  return Math.max(MIN_RUN_TIME, pathLengthMeters(path) / TYPICAL_RUN_SPEED);
+}
+
+// Work out which station a train has just left. Of the next station's
+// neighbours, it's the one furthest from the destination - i.e. the one the
+// train's route to the destination passes through the next station from.
+export function findPreviousStation(
+  nextStationId: string,
+  destinationId: string | null,
+  lineName: string
+): string | null {
+  const graph = getLineGraph(lineName);
+  const neighbours = graph?.adjacency.get(nextStationId)?.map((edge) => edge.to) || [];
+  if (neighbours.length === 0) return null;
+
+  // Approaching a terminus there's only one way in
+  if (neighbours.length === 1) return neighbours[0];
+  if (!destinationId || destinationId === nextStationId) return null;
+
+  const distances = getStationDistances(destinationId, lineName);
+  if (!distances) return null;
+
+  let previous: string | null = null;
+  let furthest = -Infinity;
+  for (const id of neighbours) {
+    const d = distances.get(id);
+    if (d !== undefined && d > furthest) {
+      furthest = d;
+      previous = id;
+    }
+  }
+  return previous;
+}
+
+// Estimate where a train actually is: proportionally along the track from
+// the previous station, based on how long it still has to run. When the
+// station it just left is known from its stop list, that wins over the guess
+// from the graph.
+export function estimateTrainPosition(
+  train: Train,
+  departedStationId: string | null = null
+): PositionEstimate | null {
+  const next = resolveStation(train.naptanId, train.currentStation, train.lineName);
+  if (!next) return null;
+
+  const nextStationId = next.station.id;
+  const atStation: PositionEstimate = {
+    position: next.station.coordinates,
+    nextStationId,
+    previousStationId: null,
+    progress: 1,
+    path: null,
+  };
+
+  if (train.timeToStation <= 0) return atStation;
+
+  let previousStationId: string | null = null;
+  let path: Position[] | null = null;
+
+  if (departedStationId && departedStationId !== nextStationId) {
+    path = findStationPath(departedStationId, nextStationId, train.lineName);
+    if (path) previousStationId = departedStationId;
+  }
+
+  if (!previousStationId) {
+    const destination = findStationByName(train.destination, train.lineName);
+    previousStationId = findPreviousStation(nextStationId, destination?.station.id || null, train.lineName);
+    if (!previousStationId) return atStation;
+    path = findStationPath(previousStationId, nextStationId, train.lineName);
+  }
+
+  if (!path || path.length < 2) return atStation;
+
+  // Further out than a typical run means it hasn't left the previous station
+  const runTime = estimateRunTime(path);
+  const progress = Math.max(0, Math.min(1, 1 - train.timeToStation / runTime));
+
+  return {
+    position: interpolateAlongPath(path, progress),
+    nextStationId,
+    previousStationId,
+    progress,
+    path,
+  };
+}
@@ -0,0 +1,77 @@
+import type { RecordingIndex, RecordingSource, RecordingStore } from '../types/recording';
+import type { TrainsResponse } from '../types/train';
+
+const DB_NAME = 'dudewheresmytube';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots'; // keyed by TrainsResponse.timestamp
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SNAPSHOTS, { keyPath: 'timestamp' });
+    };
+    database = promisify(request);
+  }
+  return database;
+}
+
+async function snapshots(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(SNAPSHOTS, mode).objectStore(SNAPSHOTS);
+}
+
+// Snapshots recorded by this browser
+export function createIndexedDbRecordingStore(): RecordingStore {
+  return {
+    async add(snapshot) {
+      await promisify((await snapshots('readwrite')).put(snapshot));
+    },
+
+    async timestamps() {
+      // Keys come back in ascending order
+      const keys = await promisify((await snapshots('readonly')).getAllKeys());
+      return keys as number[];
+    },
+
+    async get(timestamp) {
+      const snapshot = await promisify((await snapshots('readonly')).get(timestamp));
+      return (snapshot as TrainsResponse | undefined) || null;
+    },
+  };
+}
+
+async function fetchJson<T>(url: string): Promise<T | null> {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch recording: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Snapshots recorded by the dev server (TFL_RECORDINGS_DIR)
+export function createServerRecordingSource(): RecordingSource {
+  return {
+    async timestamps() {
+      const index = await fetchJson<RecordingIndex>('/api/recordings');
+      return index?.timestamps || [];
+    },
+
+    get(timestamp) {
+      return fetchJson<TrainsResponse>(`/api/recordings?at=${timestamp}`);
+    },
+  };
+}
+
+// The browser's own recordings, shared by the recorder and replay
+export const browserRecordingStore = createIndexedDbRecordingStore();
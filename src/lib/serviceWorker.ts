@@ -0,0 +1,67 @@
+import type maplibregl from 'maplibre-gl';
+
+const MAX_TILES = 300; // per request: a large screen at two zoom levels
+
+// Register public/sw.js in production builds. Dev serves modules straight
+// from source, which the worker would only get in the way of.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      // Pick up this build's files even if the worker itself hasn't changed
+      .then((registration) => registration.active?.postMessage({ type: 'precache' }))
+      .catch((error) => console.error('Service worker registration failed:', error));
+  });
+}
+
+function tileX(lng: number, zoom: number): number {
+  return Math.floor(((lng + 180) / 360) * 2 ** zoom);
+}
+
+function tileY(lat: number, zoom: number): number {
+  const rad = lat * (Math.PI / 180);
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+// URLs of the tiles covering the view, at the zoom MapLibre is showing and
+// one deeper. Subdomains are picked the way MapLibre picks them, so the
+// cached URL is the one it will ask for.
+export function getVisibleTileUrls(map: maplibregl.Map): string[] {
+  const bounds = map.getBounds();
+  const urls = new Set<string>();
+
+  for (const source of Object.values(map.getStyle().sources)) {
+    if ((source.type !== 'raster' && source.type !== 'vector') || !source.tiles?.length) continue;
+
+    const templates = source.tiles;
+    const tileSize = source.type === 'raster' ? source.tileSize ?? 512 : 512;
+    const maxZoom = source.maxzoom ?? 22;
+    const baseZoom = map.getZoom() + Math.log2(512 / tileSize);
+    const zoom = Math.min(maxZoom, source.type === 'raster' ? Math.round(baseZoom) : Math.floor(baseZoom));
+
+    for (const z of new Set([zoom, Math.min(maxZoom, zoom + 1)])) {
+      const max = 2 ** z - 1;
+      const [minX, maxX] = [tileX(bounds.getWest(), z), tileX(bounds.getEast(), z)].map((x) => Math.max(0, Math.min(max, x)));
+      const [minY, maxY] = [tileY(bounds.getNorth(), z), tileY(bounds.getSouth(), z)].map((y) => Math.max(0, Math.min(max, y)));
+
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          urls.add(templates[(x + y) % templates.length]
+            .replace('{z}', String(z))
+            .replace('{x}', String(x))
+            .replace('{y}', String(y)));
+        }
+      }
+    }
+  }
+
+  return Array.from(urls).slice(0, MAX_TILES);
+}
+
+// Have the service worker keep the tiles in view for offline use
+export function cacheVisibleTiles(map: maplibregl.Map) {
+  navigator.serviceWorker?.controller?.postMessage({ type: 'cache-tiles', urls: getVisibleTileUrls(map) });
+}
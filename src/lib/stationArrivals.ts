@@ -0,0 +1,64 @@
+import type { TrainWithPosition } from '../types/train';
+
+export interface StationArrival {
+  trackingId: string;
+  lineName: string;
+  platformName: string;
+  destination: string;
+  timeToStation: number; // seconds, as of the poll that produced it
+}
+
+export interface PlatformArrivals {
+  platformName: string;
+  arrivals: StationArrival[];
+}
+
+export interface LineArrivals {
+  lineName: string;
+  platforms: PlatformArrivals[];
+}
+
+// Every predicted arrival at a station, soonest first
+export function getStationArrivals(trains: TrainWithPosition[], stationId: string): StationArrival[] {
+  const arrivals: StationArrival[] = [];
+
+  for (const train of trains) {
+    const stop = train.upcomingStops.find((s) => s.naptanId === stationId);
+    if (!stop) continue;
+
+    arrivals.push({
+      trackingId: train.trackingId,
+      lineName: train.lineName,
+      platformName: stop.platformName || 'Platform unknown',
+      destination: train.destination,
+      timeToStation: stop.timeToStation,
+    });
+  }
+
+  return arrivals.sort((a, b) => a.timeToStation - b.timeToStation);
+}
+
+// Group arrivals by line, then platform, keeping each group soonest first
+export function groupArrivals(arrivals: StationArrival[]): LineArrivals[] {
+  const byLine = new Map<string, Map<string, StationArrival[]>>();
+
+  for (const arrival of arrivals) {
+    if (!byLine.has(arrival.lineName)) {
+      byLine.set(arrival.lineName, new Map());
+    }
+    const byPlatform = byLine.get(arrival.lineName)!;
+    if (!byPlatform.has(arrival.platformName)) {
+      byPlatform.set(arrival.platformName, []);
+    }
+    byPlatform.get(arrival.platformName)!.push(arrival);
+  }
+
+  return Array.from(byLine.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([lineName, byPlatform]) => ({
+      lineName,
+      platforms: Array.from(byPlatform.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([platformName, platformArrivals]) => ({ platformName, arrivals: platformArrivals })),
+    }));
+}
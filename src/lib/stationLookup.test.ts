@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findStationByName,
+  getAllStations,
+  getStationCoordinates,
+  normalizeStationName,
+  type StationRecord,
+} from './stationLookup';
+
+// The suffix TfL puts on a stop's name in arrivals, by NaPTAN id
+function tflName(station: StationRecord): string {
+  if (station.id.startsWith('940GZZDL')) return `${station.name} DLR Station`;
+  if (station.id.startsWith('940GZZCR')) return `${station.name} Tram Stop`;
+  if (station.id.startsWith('910G')) return `${station.name} Rail Station`;
+  return `${station.name} Underground Station`;
+}
+
+describe('normalizeStationName', () => {
+  it.each([
+    ['Oxford Circus Underground Station', 'oxford circus'],
+    ['Bank DLR Station', 'bank'],
+    ['Wimbledon Tram Stop', 'wimbledon'],
+    ['Stratford (London) Rail Station', 'stratford'],
+    ["King's Cross St. Pancras", 'kings cross st pancras'],
+    ['Shepherd’s Bush', 'shepherds bush'],
+    ['Elephant & Castle', 'elephant and castle'],
+    ['Hammersmith (H&C Line)', 'hammersmith'],
+    ['Kensington (Olympia)', 'kensington'],
+    ['  Green   Park ', 'green park'],
+    ['Stratford International DLR Station', 'stratford international'],
+  ])('%s -> %s', (name, normalized) => {
+    expect(normalizeStationName(name)).toBe(normalized);
+  });
+
+  it('is idempotent', () => {
+    for (const station of getAllStations()) {
+      const once = normalizeStationName(station.name);
+      expect(normalizeStationName(once)).toBe(once);
+    }
+  });
+});
+
+describe('getStationCoordinates', () => {
+  it('places every station by the name TfL gives it', () => {
+    const missing = getAllStations().filter((station) => !getStationCoordinates(tflName(station)));
+    expect(missing.map((station) => station.name)).toEqual([]);
+  });
+
+  it('uses aliases', () => {
+    expect(getStationCoordinates('Kings X')).toEqual(getStationCoordinates("King's Cross St. Pancras"));
+  });
+
+  it('returns null for nothing', () => {
+    expect(getStationCoordinates('')).toBeNull();
+  });
+});
+
+describe('findStationByName', () => {
+  // Names as they come back from the Arrivals API, quirks and all
+  it.each([
+    ['Hammersmith (H&C Line) Underground Station', 'Hammersmith & City', '940GZZLUHSC'],
+    ['Hammersmith (H&C Line) Underground Station', 'Circle', '940GZZLUHSC'],
+    ['Hammersmith (Dist&Picc Line) Underground Station', 'District', '940GZZLUHSD'],
+    ['Hammersmith (Dist&Picc Line) Underground Station', 'Piccadilly', '940GZZLUHSD'],
+    ['Edgware Road (Circle Line) Underground Station', 'Circle', '940GZZLUERC'],
+    ['Edgware Road (Circle Line) Underground Station', 'District', '940GZZLUERC'],
+    ['Edgware Road (Bakerloo) Underground Station', 'Bakerloo', '940GZZLUERB'],
+    ['Paddington (H&C Line)-Underground', 'Hammersmith & City', '940GZZLUPAH'],
+    ['Paddington Underground Station', 'Bakerloo', '940GZZLUPAC'],
+    ['Paddington', 'Elizabeth line', '910GPADTLL'],
+    ["Shepherd's Bush (Central) Underground Station", 'Central', '940GZZLUSBC'],
+    ["Shepherd's Bush Market Underground Station", 'Hammersmith & City', '940GZZLUSBM'],
+    ["King's Cross St. Pancras Underground Station", 'Victoria', '940GZZLUKSX'],
+    ["St. James's Park Underground Station", 'District', '940GZZLUSJP'],
+    ["St. John's Wood Underground Station", 'Jubilee', '940GZZLUSJW'],
+    ["Earls Court Underground Station", 'District', '940GZZLUECT'],
+    ['Kensington (Olympia) Underground Station', 'District', '940GZZLUKOY'],
+    ['Heathrow Terminals 2 & 3 Underground Station', 'Piccadilly', '940GZZLUHRC'],
+    ['Elephant & Castle Underground Station', 'Northern', '940GZZLUEAC'],
+    ['Totteridge & Whetstone Underground Station', 'Northern', '940GZZLUTAW'],
+    ['Harrow-on-the-Hill Underground Station', 'Metropolitan', '940GZZLUHOH'],
+    ['Harrow & Wealdstone Underground Station', 'Bakerloo', '940GZZLUHAW'],
+    ['Highbury & Islington Underground Station', 'Victoria', '940GZZLUHAI'],
+    ['Bromley-by-Bow Underground Station', 'District', '940GZZLUBBB'],
+    ['Bank Underground Station', 'Central', '940GZZLUBNK'],
+    ['Bank DLR Station', 'DLR', '940GZZDLBNK'],
+    ['Cutty Sark (for Maritime Greenwich) DLR Station', 'DLR', '940GZZDLCUT'],
+    ['Wimbledon Underground Station', 'District', '940GZZLUWIM'],
+    ['Wimbledon Tram Stop', 'Tram', '940GZZCRWMB'],
+  ])('%s on %s -> %s', (name, lineName, id) => {
+    expect(findStationByName(name, lineName)?.station.id).toBe(id);
+  });
+
+  // Golden run over the whole dataset: every station's TfL name, on every
+  // line it serves, lands on a station of that name on that line. Same-name
+  // platforms of one line (Paddington's two Circle stations) can't be told
+  // apart by name, which is what NaPTAN ids are for.
+  it('resolves every station TfL names on each of its lines', () => {
+    const wrong: string[] = [];
+    for (const station of getAllStations()) {
+      for (const lineName of station.lines) {
+        const found = findStationByName(tflName(station), lineName)?.station;
+        if (
+          !found ||
+          normalizeStationName(found.name) !== normalizeStationName(station.name) ||
+          !found.lines.includes(lineName)
+        ) {
+          wrong.push(`${station.id} ${station.name} (${lineName}) -> ${found?.id ?? 'nothing'}`);
+        }
+      }
+    }
+    expect(wrong).toEqual([]);
+  });
+
+  it("doesn't drift onto another line's station", () => {
+    expect(findStationByName('Nowhere In Particular', 'Victoria')).toBeNull();
+  });
+});
@@ -1,24 +1,70 @@
 import stationsData from '../data/tfl_stations.json';
 import type { FeatureCollection, Point } from 'geojson';
+import { getGeometryLineName, getStationIdPrefixes } from './modes';
+
+export interface StationRecord {
+  id: string; // NaPTAN id, e.g. 940GZZLUHSC, 910GLIVSTLL, 940GZZDLBNK
+  name: string;
+  coordinates: [number, number];
+  lines: string[]; // Geometry line names, e.g. "London Overground"
+}
+
+export type StationMatch = 'naptan' | 'name' | 'partial';
+
+export interface StationResolution {
+  station: StationRecord;
+  matchedBy: StationMatch;
+}
+
+export interface UnresolvedArrival {
+  naptanId: string;
+  stationName: string;
+  lineName: string;
+  count: number;
+  lastSeen: number;
+}
 
 // Build a lookup map from station name to coordinates
 const stationMap = new Map<string, [number, number]>();
 
-// Normalize station names for matching
-function normalizeStationName(name: string): string {
+// NaPTAN id -> station, the primary index for placing trains
+const stationsById = new Map<string, StationRecord>();
+
+// Normalized name -> every station with that name. Names like "Hammersmith",
+// "Edgware Road" and "Paddington" are separate platforms per line, so the
+// variants are kept side by side and picked by line.
+const stationsByName = new Map<string, StationRecord[]>();
+
+// Normalize station names for matching. Shared with station search, so
+// accents and apostrophes go too: "Shepherds Bush" finds "Shepherd's Bush".
+export function normalizeStationName(name: string): string {
   return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
     .toLowerCase()
-    .replace(/['']/g, "'")
+    .replace(/['‘’`]/g, '')
     .replace(/\s+/g, ' ')
     .replace(/\s*\(.*?\)\s*/g, '') // Remove parenthetical info
     .replace(/\s*underground\s*station\s*/gi, '')
+    .replace(/\s*tram\s*stop\s*/gi, ' ')
+    .replace(/\s*\bdlr\b\s*/gi, ' ')
     .replace(/\s*station\s*/gi, '')
     .replace(/\s*rail\s*/gi, '')
     .replace(/st\./g, 'st')
     .replace(/&/g, 'and')
+    .replace(/\s+/g, ' ')
     .trim();
 }
 
+function addNameVariant(key: string, station: StationRecord) {
+  const variants = stationsByName.get(key);
+  if (!variants) {
+    stationsByName.set(key, [station]);
+  } else if (!variants.includes(station)) {
+    variants.push(station);
+  }
+}
+
 // Initialize the station map
 const features = (stationsData as FeatureCollection<Point>).features;
 for (const feature of features) {
@@ -30,13 +76,27 @@ for (const feature of features) {
 
     // Also add the original name
     stationMap.set(name.toLowerCase(), coords);
+
+    const id = feature.properties?.id;
+    if (id) {
+      const station: StationRecord = {
+        id,
+        name,
+        coordinates: coords,
+        lines: (feature.properties?.lines || []).map((line: { name: string }) => line.name),
+      };
+      stationsById.set(id, station);
+      addNameVariant(normalizedName, station);
+      addNameVariant(name.toLowerCase(), station);
+    }
   }
 }
 
-// Common aliases and variations
-const aliases: Record<string, string> = {
+// Common aliases and variations, normalized on load
+const ALIASES: Record<string, string> = {
   "king's cross st. pancras": "kings cross st pancras",
   "kings cross": "kings cross st pancras",
+  "kings x": "kings cross st pancras",
   "hammersmith (h&c line)": "hammersmith",
   "hammersmith (district line)": "hammersmith",
   "edgware road (bakerloo)": "edgware road",
@@ -50,6 +110,17 @@ const aliases: Record<string, string> = {
   "earls court": "earl's court",
 };
 
+const aliases = new Map(
+  Object.entries(ALIASES)
+    .map(([alias, target]) => [normalizeStationName(alias), normalizeStationName(target)] as const)
+    .filter(([alias, target]) => alias !== target)
+);
+
+// Normalized alias -> normalized station name
+export function getStationAliases(): ReadonlyMap<string, string> {
+  return aliases;
+}
+
 export function getStationCoordinates(stationName: string): [number, number] | null {
   if (!stationName) return null;
 
@@ -60,7 +131,7 @@ export function getStationCoordinates(stationName: string): [number, number] | n
   if (coords) return coords;
 
   // Try alias
-  const alias = aliases[normalized];
+  const alias = aliases.get(normalized);
   if (alias) {
     coords = stationMap.get(alias);
     if (coords) return coords;
@@ -76,6 +147,137 @@ export function getStationCoordinates(stationName: string): [number, number] | n
   return null;
 }
 
-export function getAllStations(): Map<string, [number, number]> {
-  return stationMap;
+export function getStationById(naptanId: string): StationRecord | null {
+  return stationsById.get(naptanId) || null;
+}
+
+function servesLine(station: StationRecord, lineName: string): boolean {
+  return station.lines.includes(getGeometryLineName(lineName));
+}
+
+// Stations sharing a name with this one, itself included: the separate
+// platforms of an interchange such as Paddington or Bank
+export function getSameNameStations(stationId: string): StationRecord[] {
+  const station = stationsById.get(stationId);
+  if (!station) return [];
+  return stationsByName.get(normalizeStationName(station.name)) || [station];
+}
+
+// Every station on a line, by id or any line name the registry knows
+export function getStationsOnLine(lineName: string): StationRecord[] {
+  return Array.from(stationsById.values()).filter((station) => servesLine(station, lineName));
+}
+
+// Pick the platform variant that serves the line, preferring the mode's own
+// stop (910G… for the Elizabeth line, not the Underground 940GZZLU… one),
+// falling back to the first
+function pickVariant(variants: StationRecord[] | undefined, lineName: string): StationRecord | null {
+  if (!variants || variants.length === 0) return null;
+  const serving = variants.filter((station) => servesLine(station, lineName));
+  const prefixes = getStationIdPrefixes(lineName);
+  return serving.find((station) => prefixes.some((prefix) => station.id.startsWith(prefix)))
+    || serving[0]
+    || variants[0];
+}
+
+// Name lookups already made, by line + name. Every train asks for its
+// destination each poll, and the partial match scans every station.
+const nameLookups = new Map<string, StationResolution | null>();
+
+// Name-only lookup for places that never carry an id (e.g. destinations).
+// Unlike resolveStation this doesn't log or record misses.
+export function findStationByName(stationName: string, lineName: string): StationResolution | null {
+  const key = `${lineName}|${stationName}`;
+  let resolution = nameLookups.get(key);
+  if (resolution === undefined) {
+    resolution = lookUpStationName(stationName, lineName);
+    nameLookups.set(key, resolution);
+  }
+  return resolution;
+}
+
+function lookUpStationName(stationName: string, lineName: string): StationResolution | null {
+  const normalized = normalizeStationName(stationName);
+
+  const direct = pickVariant(
+    stationsByName.get(normalized) || stationsByName.get(stationName.toLowerCase()),
+    lineName
+  );
+  if (direct) return { station: direct, matchedBy: 'name' };
+
+  const alias = aliases.get(normalized);
+  const aliased = alias ? pickVariant(stationsByName.get(alias), lineName) : null;
+  if (aliased) return { station: aliased, matchedBy: 'name' };
+
+  // Partial match, restricted to stations on the same line so short names
+  // can't drift onto an unrelated station elsewhere on the network
+  for (const [key, variants] of stationsByName.entries()) {
+    if (key.includes(normalized) || normalized.includes(key)) {
+      if (variants.some((variant) => servesLine(variant, lineName))) {
+        return { station: pickVariant(variants, lineName)!, matchedBy: 'partial' };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Arrivals that could not be placed, keyed by line + naptan + name
+const unresolvedArrivals = new Map<string, UnresolvedArrival>();
+
+// Name fallbacks already logged, so each one is reported once
+const loggedFallbacks = new Set<string>();
+
+// Resolve an arrival to a station: NaPTAN id first, name only as a fallback
+export function resolveStation(
+  naptanId: string,
+  stationName: string,
+  lineName: string
+): StationResolution | null {
+  const byId = naptanId ? stationsById.get(naptanId) : undefined;
+  if (byId) return { station: byId, matchedBy: 'naptan' };
+
+  const byName = stationName ? findStationByName(stationName, lineName) : null;
+  const key = `${lineName}|${naptanId}|${stationName}`;
+
+  if (byName) {
+    if (!loggedFallbacks.has(key)) {
+      loggedFallbacks.add(key);
+      console.warn(
+        `Station ${naptanId || '(no id)'} "${stationName}" on ${lineName} ` +
+        `resolved by ${byName.matchedBy} match to ${byName.station.id} "${byName.station.name}"`
+      );
+    }
+    return byName;
+  }
+
+  const existing = unresolvedArrivals.get(key);
+  if (existing) {
+    existing.count++;
+    existing.lastSeen = Date.now();
+  } else {
+    unresolvedArrivals.set(key, {
+      naptanId,
+      stationName,
+      lineName,
+      count: 1,
+      lastSeen: Date.now(),
+    });
+  }
+
+  return null;
+}
+
+// Report of arrivals that could not be resolved, most frequent first
+export function getUnresolvedArrivals(): UnresolvedArrival[] {
+  return Array.from(unresolvedArrivals.values()).sort((a, b) => b.count - a.count);
+}
+
+export function clearUnresolvedArrivals() {
+  unresolvedArrivals.clear();
+}
+
+// Every station with an id, in data order
+export function getAllStations(): StationRecord[] {
+  return Array.from(stationsById.values());
 }
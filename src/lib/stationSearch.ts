@@ -0,0 +1,116 @@
+import { getAllStations, getStationAliases, normalizeStationName } from './stationLookup';
+import type { StationRecord } from './stationLookup';
+import { getModeIdForLine } from './modes';
+
+export interface StationSearchResult {
+  station: StationRecord;
+  lines: string[]; // geometry names of the registered lines served
+  alias: string | null; // the alias that matched, if it wasn't the name
+}
+
+interface IndexEntry {
+  key: string; // normalized name or alias
+  station: StationRecord;
+  lines: string[];
+  alias: string | null;
+}
+
+// Lower ranks first; fuzzy matches add their edit count to the last rank
+const RANK_EXACT = 0;
+const RANK_PREFIX = 1;
+const RANK_WORD_PREFIX = 2;
+const RANK_FUZZY = 3;
+
+const DEFAULT_LIMIT = 8;
+
+let index: IndexEntry[] | null = null;
+
+// One entry per station name and per alias pointing at it. Only stations
+// on registered lines are searchable, since nothing else is on the map.
+function getIndex(): IndexEntry[] {
+  if (index) return index;
+
+  const byKey = new Map<string, Array<Omit<IndexEntry, 'key' | 'alias'>>>();
+  for (const station of getAllStations()) {
+    const lines = [...new Set(station.lines.filter((line) => getModeIdForLine(line) !== null))];
+    if (lines.length === 0) continue;
+
+    const key = normalizeStationName(station.name);
+    byKey.set(key, [...(byKey.get(key) || []), { station, lines }]);
+  }
+
+  index = [];
+  for (const [key, stations] of byKey) {
+    for (const entry of stations) index.push({ key, ...entry, alias: null });
+  }
+  for (const [alias, target] of getStationAliases()) {
+    for (const entry of byKey.get(target) || []) index.push({ key: alias, ...entry, alias });
+  }
+
+  return index;
+}
+
+// Typos allowed for a query of this length: none for the first few letters
+function allowedEdits(length: number): number {
+  if (length < 5) return 0;
+  return length < 9 ? 1 : 2;
+}
+
+// Fewest edits (insertions, deletions, substitutions, swaps of neighbours)
+// turning `query` into any prefix of `key`, or Infinity past `max`
+function prefixDistance(query: string, key: string, max: number): number {
+  const rows: number[][] = [Array.from({ length: key.length + 1 }, (_, j) => j)];
+
+  for (let i = 1; i <= query.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= key.length; j++) {
+      const cost = query[i - 1] === key[j - 1] ? 0 : 1;
+      row[j] = Math.min(rows[i - 1][j] + 1, row[j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && query[i - 1] === key[j - 2] && query[i - 2] === key[j - 1]) {
+        row[j] = Math.min(row[j], rows[i - 2][j - 2] + 1);
+      }
+    }
+    if (Math.min(...row) > max) return Infinity;
+    rows.push(row);
+  }
+
+  // Prefixes of the key end anywhere, so the cheapest column wins
+  return Math.min(...rows[query.length]);
+}
+
+function rank(query: string, key: string): number {
+  if (key === query) return RANK_EXACT;
+  if (key.startsWith(query)) return RANK_PREFIX;
+  if (key.includes(` ${query}`)) return RANK_WORD_PREFIX;
+
+  const edits = prefixDistance(query, key, allowedEdits(query.length));
+  return edits === Infinity ? Infinity : RANK_FUZZY + edits;
+}
+
+// Stations matching what's been typed so far, best first. Names are
+// normalized as for train placement, then matched on the start of the name,
+// the start of a later word, or the start of the name with a typo or two.
+export function searchStations(query: string, limit = DEFAULT_LIMIT): StationSearchResult[] {
+  const normalized = normalizeStationName(query);
+  if (!normalized) return [];
+
+  const best = new Map<string, { entry: IndexEntry; rank: number }>();
+  for (const entry of getIndex()) {
+    const entryRank = rank(normalized, entry.key);
+    if (entryRank === Infinity) continue;
+
+    const current = best.get(entry.station.id);
+    if (!current || entryRank < current.rank) {
+      best.set(entry.station.id, { entry, rank: entryRank });
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) =>
+      a.rank - b.rank
+      || a.entry.station.name.length - b.entry.station.name.length
+      || a.entry.station.name.localeCompare(b.entry.station.name)
+    )
+    .slice(0, limit)
+    .map(({ entry }) => ({ station: entry.station, lines: entry.lines, alias: entry.alias }));
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { Position } from 'geojson';
+import { haversineMeters, pathLengthMeters, projectOntoSegment } from './geo';
+import { getStationById } from './stationLookup';
+import {
+  findTrackPath,
+  getLineGraph,
+  interpolateAlongPath,
+  locateOnGraph,
+  measurePath,
+  segmentAlongPath,
+  type LineGraph,
+} from './trackGeometry';
+
+function coordinatesOf(id: string): [number, number] {
+  const station = getStationById(id);
+  if (!station) throw new Error(`No station ${id}`);
+  return station.coordinates;
+}
+
+// Metres from a point to the nearest segment of a path
+function offPath(point: Position, path: Position[]): number {
+  let nearest = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    nearest = Math.min(nearest, projectOntoSegment(point, path[i - 1], path[i]).offset);
+  }
+  return nearest;
+}
+
+describe('findTrackPath', () => {
+  it.each([
+    ['Victoria', '940GZZLUBXN', '940GZZLUWWL', 20000, 23000], // Brixton to Walthamstow Central
+    ['Central', '940GZZLUOXC', '940GZZLUBNK', 2500, 4000], // Oxford Circus to Bank
+    ['District', '940GZZLUWIM', '940GZZLUUPM', 38000, 46000], // Wimbledon to Upminster, via Earl's Court
+    ['Circle', '940GZZLUERC', '940GZZLUHSC', 5000, 8000], // Edgware Road to Hammersmith
+  ])('follows the %s line from %s to %s', (lineName, fromId, toId, minLength, maxLength) => {
+    const from = coordinatesOf(fromId);
+    const to = coordinatesOf(toId);
+    const path = findTrackPath(from, to, lineName);
+
+    expect(path).not.toBeNull();
+    expect(haversineMeters(path![0], from)).toBeLessThan(150);
+    expect(haversineMeters(path![path!.length - 1], to)).toBeLessThan(150);
+
+    const length = pathLengthMeters(path!);
+    expect(length).toBeGreaterThan(minLength);
+    expect(length).toBeLessThan(maxLength);
+  });
+
+  it('runs the same track both ways', () => {
+    const from = coordinatesOf('940GZZLUKSX');
+    const to = coordinatesOf('940GZZLUVIC');
+    const there = findTrackPath(from, to, 'Victoria')!;
+    const back = findTrackPath(to, from, 'Victoria')!;
+    expect(pathLengthMeters(back)).toBeCloseTo(pathLengthMeters(there), 0);
+  });
+
+  it('returns null for a line with no track', () => {
+    expect(findTrackPath(coordinatesOf('940GZZLUOXC'), coordinatesOf('940GZZLUBNK'), 'Nonexistent')).toBeNull();
+  });
+});
+
+describe('locateOnGraph', () => {
+  // Metres from a point to the nearest track, checking every segment
+  function nearestTrack(graph: LineGraph, point: Position): number {
+    let nearest = Infinity;
+    for (const edges of graph.adjacency.values()) {
+      for (const edge of edges) nearest = Math.min(nearest, offPath(point, edge.coordinates));
+    }
+    return nearest;
+  }
+
+  it.each(['Victoria', 'District', 'Circle', 'Northern', 'DLR'])('finds the nearest %s track', (lineName) => {
+    const graph = getLineGraph(lineName)!;
+    const stations = Array.from(graph.nodes.values());
+
+    // Points up to a kilometre or so from a station on the line
+    const point = fc.tuple(
+      fc.constantFrom(...stations),
+      fc.double({ min: -0.015, max: 0.015, noNaN: true }),
+      fc.double({ min: -0.01, max: 0.01, noNaN: true })
+    ).map(([[lng, lat], dLng, dLat]): Position => [lng + dLng, lat + dLat]);
+
+    fc.assert(
+      fc.property(point, (point) => {
+        expect(locateOnGraph(graph, point)!.offset).toBeCloseTo(nearestTrack(graph, point), 6);
+      }),
+      { numRuns: 300 }
+    );
+  });
+});
+
+describe('interpolateAlongPath', () => {
+  // Random walks of up to 25 steps of a few hundred metres around London,
+  // including zero-length ones
+  const step = fc.tuple(
+    fc.double({ min: -0.01, max: 0.01, noNaN: true }),
+    fc.double({ min: -0.01, max: 0.01, noNaN: true })
+  );
+  const path = fc.array(step, { minLength: 1, maxLength: 25 }).map((steps) => {
+    const path: Position[] = [[-0.1276, 51.5072]];
+    for (const [dLng, dLat] of steps) {
+      const [lng, lat] = path[path.length - 1];
+      path.push([lng + dLng, lat + dLat]);
+    }
+    return path;
+  });
+  const progress = fc.double({ min: 0, max: 1, noNaN: true });
+
+  it('returns the ends at 0 and 1', () => {
+    fc.assert(
+      fc.property(path, (path) => {
+        expect(interpolateAlongPath(path, 0)).toEqual(path[0]);
+        expect(interpolateAlongPath(path, 1)).toEqual(path[path.length - 1]);
+      })
+    );
+  });
+
+  it('stays on the path', () => {
+    fc.assert(
+      fc.property(path, progress, (path, progress) => {
+        expect(offPath(interpolateAlongPath(path, progress), path)).toBeLessThan(0.5);
+      })
+    );
+  });
+
+  it('only ever moves forwards along the path', () => {
+    fc.assert(
+      fc.property(path, progress, progress, (path, a, b) => {
+        const [earlier, later] = a <= b ? [a, b] : [b, a];
+        const measured = measurePath(path);
+
+        // Distance from the start, measured along the path, of each point
+        const along = (progress: number) => {
+          const segment = segmentAlongPath(measured, progress);
+          return measured.distances[segment] + haversineMeters(path[segment], interpolateAlongPath(path, progress));
+        };
+
+        expect(along(later)).toBeGreaterThanOrEqual(along(earlier) - 0.01);
+        expect(along(earlier)).toBeCloseTo(earlier * measured.length, -1);
+      })
+    );
+  });
+
+  it('handles paths with repeated points', () => {
+    const path = [[-0.1, 51.5], [-0.1, 51.5], [-0.09, 51.5]];
+    expect(interpolateAlongPath(path, 0.5)).toEqual([-0.095, 51.5]);
+    expect(interpolateAlongPath([[-0.1, 51.5], [-0.1, 51.5]], 0.5)).toEqual([-0.1, 51.5]);
+  });
+});
@@ -1,175 +1,768 @@
 import linesData from '../data/tfl_lines.json';
 import type { FeatureCollection, LineString, Position } from 'geojson';
+import { getStationById, getStationsOnLine } from './stationLookup';
+import type { StationRecord } from './stationLookup';
+import { getGeometryLineName, getGeometryLineNames } from './modes';
+import { haversineMeters, pathLengthMeters, projectOntoSegment } from './geo';
+
+interface LineProperties {
+  name: string;
+  opened?: number;
+  closed?: number;
+  start_sid?: string;
+  end_sid?: string;
+  otend_sid?: string;
+  ot2end_sid?: string;
+}
 
-interface LineSegment {
-  lineName: string;
+// A stretch of track between two adjacent stations, oriented from -> to
+export interface GraphEdge {
+  from: string;
+  to: string;
   coordinates: Position[];
+  length: number; // metres
+}
+
+// Stations as nodes, station-to-station stretches as edges
+export interface LineGraph {
+  lineName: string;
+  nodes: Map<string, Position>;
+  adjacency: Map<string, GraphEdge[]>;
+}
+
+// Where a point sits on the graph: an edge plus the distance along it,
+// both in metres
+export interface EdgeLocation {
+  edge: GraphEdge;
+  along: number;
+  offset: number;
+}
+
+const lineGraphs: Map<string, LineGraph> = new Map();
+
+// Routes that are closed or not yet open shouldn't be routable
+function isInService(line: LineProperties): boolean {
+  if (line.closed) return false;
+  return !line.opened || line.opened <= new Date().getFullYear();
+}
+
+// The geometry splits a stretch between two stations into several pieces
+// (at junctions and where other lines join). Chain them end to end starting
+// from the origin station, flipping each piece so it continues the path.
+function chainPieces(start: Position, end: Position, pieces: Position[][]): Position[] {
+  const remaining = [...pieces];
+  const path: Position[] = [start];
+  let cursor = start;
+
+  while (remaining.length > 0) {
+    let bestIdx = 0;
+    let bestDist = Infinity;
+    let bestReversed = false;
+
+    remaining.forEach((piece, idx) => {
+      const toFirst = haversineMeters(piece[0], cursor);
+      const toLast = haversineMeters(piece[piece.length - 1], cursor);
+      if (Math.min(toFirst, toLast) < bestDist) {
+        bestDist = Math.min(toFirst, toLast);
+        bestIdx = idx;
+        bestReversed = toLast < toFirst;
+      }
+    });
+
+    const [piece] = remaining.splice(bestIdx, 1);
+    const oriented = bestReversed ? [...piece].reverse() : piece;
+    path.push(...oriented);
+    cursor = oriented[oriented.length - 1];
+  }
+
+  path.push(end);
+  return path;
+}
+
+function addEdge(graph: LineGraph, edge: GraphEdge) {
+  for (const [id, reversed] of [[edge.from, false], [edge.to, true]] as const) {
+    if (!graph.adjacency.has(id)) {
+      graph.adjacency.set(id, []);
+    }
+    graph.adjacency.get(id)!.push(reversed
+      ? { from: edge.to, to: edge.from, coordinates: [...edge.coordinates].reverse(), length: edge.length }
+      : edge
+    );
+  }
 }
 
-// Build an index of line segments by line name
-const lineSegments: Map<string, LineSegment[]> = new Map();
+// Track ends this close to another piece are joined, and stations this close
+// to the track are placed on it, in metres
+const SNAP_TOLERANCE = 100;
+
+// Lines whose geometry carries no station ids (the Elizabeth line) get a
+// graph from the track alone: pieces are joined where an end touches another
+// piece, each station on the line is snapped to its nearest track vertex, and
+// edges follow the track from a station to the first stations it reaches.
+function buildGraphFromTrack(lineName: string, pieces: Position[][]): LineGraph {
+  const graph: LineGraph = { lineName, nodes: new Map(), adjacency: new Map() };
+
+  const vertices: Position[] = [];
+  const neighbours: number[][] = [];
+  const indexByKey = new Map<string, number>();
+
+  const addVertex = (point: Position): number => {
+    const key = `${point[0]},${point[1]}`;
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = vertices.length;
+      indexByKey.set(key, index);
+      vertices.push(point);
+      neighbours.push([]);
+    }
+    return index;
+  };
+
+  const link = (a: number, b: number) => {
+    if (a === b || neighbours[a].includes(b)) return;
+    neighbours[a].push(b);
+    neighbours[b].push(a);
+  };
+
+  const nearestVertex = (point: Position, exclude?: Set<number>): number => {
+    let nearest = -1;
+    let nearestDist = SNAP_TOLERANCE;
+    vertices.forEach((vertex, index) => {
+      if (exclude?.has(index)) return;
+      const d = haversineMeters(point, vertex);
+      if (d < nearestDist) {
+        nearest = index;
+        nearestDist = d;
+      }
+    });
+    return nearest;
+  };
+
+  const pieceVertices = pieces.map((piece) => {
+    const indices = piece.map(addVertex);
+    for (let i = 1; i < indices.length; i++) link(indices[i - 1], indices[i]);
+    return indices;
+  });
+
+  for (const indices of pieceVertices) {
+    const own = new Set(indices);
+    for (const end of [indices[0], indices[indices.length - 1]]) {
+      const joined = nearestVertex(vertices[end], own);
+      if (joined >= 0) link(end, joined);
+    }
+  }
+
+  // Track vertex -> stations placed on it
+  const stationsAt = new Map<number, StationRecord[]>();
+  for (const station of getStationsOnLine(lineName)) {
+    const index = nearestVertex(station.coordinates);
+    if (index < 0) continue;
+    stationsAt.set(index, [...(stationsAt.get(index) || []), station]);
+    graph.nodes.set(station.id, station.coordinates);
+  }
+
+  const connect = (from: StationRecord, to: StationRecord, coordinates: Position[]) => {
+    addEdge(graph, { from: from.id, to: to.id, coordinates, length: pathLengthMeters(coordinates) });
+  };
+
+  for (const [origin, stations] of stationsAt) {
+    // Stations sharing a spot (e.g. 910GLIVST and 910GLIVSTLL) link directly
+    for (const twin of stations.slice(1)) {
+      connect(stations[0], twin, [stations[0].coordinates, twin.coordinates]);
+    }
+
+    // Walk the track outwards, stopping at the first station each way. Each
+    // pair is found from both ends, so only the lower vertex adds the edge.
+    const parent = new Map<number, number>([[origin, origin]]);
+    const queue = [origin];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of neighbours[current]) {
+        if (parent.has(next)) continue;
+        parent.set(next, current);
+
+        const reached = stationsAt.get(next);
+        if (!reached) {
+          queue.push(next);
+          continue;
+        }
+        if (origin > next) continue;
+
+        const track: Position[] = [];
+        for (let index = next; index !== origin; index = parent.get(index)!) {
+          track.unshift(vertices[index]);
+        }
+        connect(stations[0], reached[0], [stations[0].coordinates, vertices[origin], ...track, reached[0].coordinates]);
+      }
+    }
+  }
+
+  return graph;
+}
 
-function initializeLineSegments() {
+function initializeLineGraphs() {
   const features = (linesData as FeatureCollection<LineString>).features;
 
+  // lineName -> "fromId|toId" -> geometry pieces of that stretch
+  const stretches = new Map<string, Map<string, Position[][]>>();
+  // lineName -> geometry pieces with no station ids
+  const untracked = new Map<string, Position[][]>();
+  const registered = new Set(getGeometryLineNames());
+
   for (const feature of features) {
-    const lines = feature.properties?.lines || [];
+    const lines: LineProperties[] = feature.properties?.lines || [];
     const coords = feature.geometry?.coordinates || [];
 
     if (coords.length < 2) continue;
 
     for (const line of lines) {
-      const lineName = line.name;
-      if (!lineSegments.has(lineName)) {
-        lineSegments.set(lineName, []);
+      if (!registered.has(line.name) || !isInService(line)) continue;
+
+      if (!line.start_sid) {
+        untracked.set(line.name, [...(untracked.get(line.name) || []), coords]);
+        continue;
+      }
+
+      if (!stretches.has(line.name)) {
+        stretches.set(line.name, new Map());
       }
-      lineSegments.get(lineName)!.push({
-        lineName,
-        coordinates: coords,
-      });
+      const byStretch = stretches.get(line.name)!;
+
+      // otend/ot2end mark shared track that also leads to another station
+      for (const endId of [line.end_sid, line.otend_sid, line.ot2end_sid]) {
+        if (!endId || endId === line.start_sid) continue;
+        const key = [line.start_sid, endId].sort().join('|');
+        if (!byStretch.has(key)) {
+          byStretch.set(key, []);
+        }
+        byStretch.get(key)!.push(coords);
+      }
+    }
+  }
+
+  for (const [lineName, byStretch] of stretches) {
+    const graph: LineGraph = { lineName, nodes: new Map(), adjacency: new Map() };
+
+    for (const [key, pieces] of byStretch) {
+      const [fromId, toId] = key.split('|');
+      const fromStation = getStationById(fromId);
+      const toStation = getStationById(toId);
+
+      // Stations missing from the dataset fall back to the track ends
+      const start = fromStation?.coordinates || pieces[0][0];
+      const end = toStation?.coordinates || pieces[pieces.length - 1][pieces[pieces.length - 1].length - 1];
+      const coordinates = chainPieces(start, end, pieces);
+
+      graph.nodes.set(fromId, start);
+      graph.nodes.set(toId, end);
+      addEdge(graph, { from: fromId, to: toId, coordinates, length: pathLengthMeters(coordinates) });
+    }
+
+    lineGraphs.set(lineName, graph);
+  }
+
+  for (const [lineName, pieces] of untracked) {
+    if (!lineGraphs.has(lineName)) {
+      lineGraphs.set(lineName, buildGraphFromTrack(lineName, pieces));
     }
   }
 }
 
-initializeLineSegments();
+initializeLineGraphs();
 
-// Calculate distance between two points
-function distance(a: Position, b: Position): number {
-  const dx = a[0] - b[0];
-  const dy = a[1] - b[1];
-  return Math.sqrt(dx * dx + dy * dy);
+// Graphs are keyed by geometry name; callers may pass a line id or display
+// name (e.g. "mildmay" or "Mildmay" both find "London Overground")
+function graphFor(lineName: string): LineGraph | undefined {
+  return lineGraphs.get(getGeometryLineName(lineName));
 }
 
-// Find the track path between two points for a given line
-export function findTrackPath(
-  from: [number, number],
-  to: [number, number],
-  lineName: string
-): Position[] | null {
-  const segments = lineSegments.get(lineName);
-  if (!segments || segments.length === 0) return null;
-
-  // Find the segment that contains both points (or is closest)
-  let bestSegment: LineSegment | null = null;
-  let bestFromIdx = -1;
-  let bestToIdx = -1;
-  let bestScore = Infinity;
-
-  for (const segment of segments) {
-    const coords = segment.coordinates;
-
-    // Find closest point on this segment to 'from' and 'to'
-    let fromIdx = -1;
-    let toIdx = -1;
-    let fromDist = Infinity;
-    let toDist = Infinity;
-
-    for (let i = 0; i < coords.length; i++) {
-      const d1 = distance(coords[i], from);
-      const d2 = distance(coords[i], to);
-
-      if (d1 < fromDist) {
-        fromDist = d1;
-        fromIdx = i;
+export function getLineGraph(lineName: string): LineGraph | null {
+  return graphFor(lineName) || null;
+}
+
+// Dijkstra over the line graph. Graphs are at most a few dozen stations, so
+// a linear scan for the closest unvisited node is plenty.
+function shortestPaths(graph: LineGraph, sourceId: string) {
+  const dist = new Map<string, number>([[sourceId, 0]]);
+  const via = new Map<string, GraphEdge>();
+  const visited = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    let currentDist = Infinity;
+    for (const [id, d] of dist) {
+      if (!visited.has(id) && d < currentDist) {
+        current = id;
+        currentDist = d;
       }
-      if (d2 < toDist) {
-        toDist = d2;
-        toIdx = i;
+    }
+    if (current === null) break;
+    visited.add(current);
+
+    for (const edge of graph.adjacency.get(current) || []) {
+      const candidate = currentDist + edge.length;
+      if (candidate < (dist.get(edge.to) ?? Infinity)) {
+        dist.set(edge.to, candidate);
+        via.set(edge.to, edge);
       }
     }
+  }
 
-    // Score based on how close both points are to this segment
-    const score = fromDist + toDist;
-    if (score < bestScore && fromIdx !== toIdx) {
-      bestScore = score;
-      bestSegment = segment;
-      bestFromIdx = fromIdx;
-      bestToIdx = toIdx;
-    }
+  return { dist, via };
+}
+
+function edgesTo(via: Map<string, GraphEdge>, sourceId: string, targetId: string): GraphEdge[] | null {
+  const edges: GraphEdge[] = [];
+  let id = targetId;
+  while (id !== sourceId) {
+    const edge = via.get(id);
+    if (!edge) return null;
+    edges.unshift(edge);
+    id = edge.from;
   }
+  return edges;
+}
 
-  if (!bestSegment || bestFromIdx === -1 || bestToIdx === -1) {
-    return null;
+function joinEdges(edges: GraphEdge[]): Position[] {
+  const path: Position[] = [];
+  for (const edge of edges) {
+    path.push(...(path.length > 0 ? edge.coordinates.slice(1) : edge.coordinates));
   }
+  return path;
+}
 
-  // Extract the path between the two indices
-  const coords = bestSegment.coordinates;
-  const startIdx = Math.min(bestFromIdx, bestToIdx);
-  const endIdx = Math.max(bestFromIdx, bestToIdx);
+// Shortest paths from each station, worked out once. The graphs never
+// change, and every poll asks about the same few hundred station pairs.
+const shortestPathCache = new Map<string, ReturnType<typeof shortestPaths>>();
 
-  let path = coords.slice(startIdx, endIdx + 1);
+function cachedShortestPaths(graph: LineGraph, sourceId: string): ReturnType<typeof shortestPaths> {
+  const key = `${graph.lineName}|${sourceId}`;
+  let paths = shortestPathCache.get(key);
+  if (!paths) {
+    paths = shortestPaths(graph, sourceId);
+    shortestPathCache.set(key, paths);
+  }
+  return paths;
+}
+
+// Route distances (metres) from a station to every other station on the line
+export function getStationDistances(stationId: string, lineName: string): Map<string, number> | null {
+  const graph = graphFor(lineName);
+  if (!graph || !graph.nodes.has(stationId)) return null;
+  return cachedShortestPaths(graph, stationId).dist;
+}
 
-  // Reverse if needed so path goes from -> to
-  if (bestFromIdx > bestToIdx) {
-    path = path.reverse();
+// Routes and their geometry by "line|from|to". Callers get the cached arrays
+// and must not modify them.
+const routeCache = new Map<string, string[] | null>();
+const stationPathCache = new Map<string, Position[] | null>();
+
+// Station ids visited on the shortest route, including both ends
+export function findStationRoute(fromId: string, toId: string, lineName: string): string[] | null {
+  const graph = graphFor(lineName);
+  if (!graph || !graph.nodes.has(fromId) || !graph.nodes.has(toId)) return null;
+  if (fromId === toId) return [fromId];
+
+  const key = `${graph.lineName}|${fromId}|${toId}`;
+  let route = routeCache.get(key);
+  if (route === undefined) {
+    const edges = edgesTo(cachedShortestPaths(graph, fromId).via, fromId, toId);
+    route = edges ? [fromId, ...edges.map((edge) => edge.to)] : null;
+    routeCache.set(key, route);
   }
+  return route;
+}
 
+// Track geometry of the shortest route between two stations on a line
+export function findStationPath(fromId: string, toId: string, lineName: string): Position[] | null {
+  const graph = graphFor(lineName);
+  if (!graph || !graph.nodes.has(fromId) || !graph.nodes.has(toId)) return null;
+  if (fromId === toId) return [graph.nodes.get(fromId)!];
+
+  const key = `${graph.lineName}|${fromId}|${toId}`;
+  let path = stationPathCache.get(key);
+  if (path === undefined) {
+    const edges = edgesTo(cachedShortestPaths(graph, fromId).via, fromId, toId);
+    path = edges ? joinEdges(edges) : null;
+    stationPathCache.set(key, path);
+  }
   return path;
 }
 
-// Interpolate position along a path
-export function interpolateAlongPath(
-  path: Position[],
-  progress: number // 0 to 1
-): [number, number] {
-  if (path.length === 0) return [0, 0];
-  if (path.length === 1) return [path[0][0], path[0][1]];
-  if (progress <= 0) return [path[0][0], path[0][1]];
-  if (progress >= 1) return [path[path.length - 1][0], path[path.length - 1][1]];
+// Distance (metres) from the start of an edge to each of its points
+const edgeDistances = new WeakMap<GraphEdge, number[]>();
 
-  // Calculate total path length
-  let totalLength = 0;
-  const segmentLengths: number[] = [];
+function distancesAlong(edge: GraphEdge): number[] {
+  let distances = edgeDistances.get(edge);
+  if (!distances) {
+    distances = measurePath(edge.coordinates).distances;
+    edgeDistances.set(edge, distances);
+  }
+  return distances;
+}
 
-  for (let i = 1; i < path.length; i++) {
-    const len = distance(path[i - 1], path[i]);
-    segmentLengths.push(len);
-    totalLength += len;
+// One piece of a graph's track with its bounding box, for snapping points
+interface TrackSegment {
+  edge: GraphEdge;
+  index: number; // of the segment's first point in the edge
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// A graph's segments bucketed into a grid of CELL_SIZE squares, so a point
+// only has to be compared with the track around it
+interface SegmentGrid {
+  cells: Map<string, TrackSegment[]>;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const CELL_SIZE = 0.005; // degrees, ~550m of latitude
+const METRES_PER_DEGREE = 111195; // of latitude, on the mean radius
+const BOUND_SLACK = 0.98; // keeps the flat-earth bounds below the true distance
+
+const segmentGrids = new WeakMap<LineGraph, SegmentGrid>();
+
+function cellKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+function gridOf(graph: LineGraph): SegmentGrid {
+  let grid = segmentGrids.get(graph);
+  if (grid) return grid;
+
+  grid = { cells: new Map(), minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const edges of graph.adjacency.values()) {
+    for (const edge of edges) {
+      // Each stretch is stored in both directions; one copy is enough
+      if (edge.from > edge.to) continue;
+
+      const coords = edge.coordinates;
+      for (let i = 1; i < coords.length; i++) {
+        const segment: TrackSegment = {
+          edge,
+          index: i - 1,
+          west: Math.min(coords[i - 1][0], coords[i][0]),
+          south: Math.min(coords[i - 1][1], coords[i][1]),
+          east: Math.max(coords[i - 1][0], coords[i][0]),
+          north: Math.max(coords[i - 1][1], coords[i][1]),
+        };
+
+        const x0 = Math.floor(segment.west / CELL_SIZE);
+        const x1 = Math.floor(segment.east / CELL_SIZE);
+        const y0 = Math.floor(segment.south / CELL_SIZE);
+        const y1 = Math.floor(segment.north / CELL_SIZE);
+        for (let x = x0; x <= x1; x++) {
+          for (let y = y0; y <= y1; y++) {
+            const key = cellKey(x, y);
+            const cell = grid.cells.get(key);
+            if (cell) cell.push(segment);
+            else grid.cells.set(key, [segment]);
+          }
+        }
+        grid.minX = Math.min(grid.minX, x0);
+        grid.minY = Math.min(grid.minY, y0);
+        grid.maxX = Math.max(grid.maxX, x1);
+        grid.maxY = Math.max(grid.maxY, y1);
+      }
+    }
+  }
+
+  segmentGrids.set(graph, grid);
+  return grid;
+}
+
+// Project a point onto the nearest edge of the graph. The grid is searched in
+// rings of cells outwards from the point's own, stopping once the edge of
+// what's been searched is further away than the best match so far.
+export function locateOnGraph(graph: LineGraph, point: Position): EdgeLocation | null {
+  const grid = gridOf(graph);
+  const lngScale = Math.cos((point[1] * Math.PI) / 180) * METRES_PER_DEGREE;
+  const px = Math.floor(point[0] / CELL_SIZE);
+  const py = Math.floor(point[1] / CELL_SIZE);
+  const maxRing = Math.max(px - grid.minX, grid.maxX - px, py - grid.minY, grid.maxY - py);
+  let best: EdgeLocation | null = null;
+
+  const consider = ({ edge, index, west, south, east, north }: TrackSegment) => {
+    if (best) {
+      // Nothing in a bounding box further off than the best can beat it
+      const dx = Math.max(west - point[0], 0, point[0] - east) * lngScale;
+      const dy = Math.max(south - point[1], 0, point[1] - north) * METRES_PER_DEGREE;
+      if ((dx * dx + dy * dy) * BOUND_SLACK > best.offset * best.offset) return;
+    }
+
+    const { t, offset } = projectOntoSegment(point, edge.coordinates[index], edge.coordinates[index + 1]);
+    if (!best || offset < best.offset) {
+      const distances = distancesAlong(edge);
+      best = { edge, along: distances[index] + (distances[index + 1] - distances[index]) * t, offset };
+    }
+  };
+
+  for (let ring = 0; ring <= maxRing; ring++) {
+    // Anything not seen yet lies outside the square of rings searched so
+    // far, so at least as far off as that square's nearest side
+    const searched = Math.min(
+      (point[0] - (px - ring + 1) * CELL_SIZE) * lngScale,
+      ((px + ring) * CELL_SIZE - point[0]) * lngScale,
+      (point[1] - (py - ring + 1) * CELL_SIZE) * METRES_PER_DEGREE,
+      ((py + ring) * CELL_SIZE - point[1]) * METRES_PER_DEGREE
+    );
+    if (best && (best as EdgeLocation).offset <= searched * BOUND_SLACK) break;
+
+    for (let x = px - ring; x <= px + ring; x++) {
+      for (let y = py - ring; y <= py + ring; y++) {
+        // Only the ring's outline; the inside was searched already
+        if (Math.abs(x - px) !== ring && Math.abs(y - py) !== ring) continue;
+        for (const segment of grid.cells.get(cellKey(x, y)) || []) consider(segment);
+      }
+    }
+  }
+
+  return best;
+}
+
+// Geometry of an edge between two distances along it, in travel order
+function sliceEdge(edge: GraphEdge, fromAlong: number, toAlong: number): Position[] {
+  const forward = fromAlong <= toAlong;
+  const lo = Math.min(fromAlong, toAlong);
+  const hi = Math.max(fromAlong, toAlong);
+  const coords = edge.coordinates;
+  const distances = distancesAlong(edge);
+  const path: Position[] = [];
+
+  for (let i = 1; i < coords.length; i++) {
+    const a = coords[i - 1];
+    const b = coords[i];
+    const segStart = distances[i - 1];
+    const segEnd = distances[i];
+    const segLen = segEnd - segStart;
+
+    if (segEnd >= lo && segStart <= hi && segLen > 0) {
+      const t0 = Math.max(0, (lo - segStart) / segLen);
+      const t1 = Math.min(1, (hi - segStart) / segLen);
+      if (path.length === 0) {
+        path.push([a[0] + (b[0] - a[0]) * t0, a[1] + (b[1] - a[1]) * t0]);
+      }
+      path.push([a[0] + (b[0] - a[0]) * t1, a[1] + (b[1] - a[1]) * t1]);
+    }
+  }
+
+  return forward ? path : path.reverse();
+}
+
+// Find the track path between two points for a given line. Both points are
+// snapped onto the line graph, so the path can run across several stretches
+// and through junctions rather than being limited to a single LineString.
+export function findTrackPath(
+  from: [number, number],
+  to: [number, number],
+  lineName: string
+): Position[] | null {
+  const graph = graphFor(lineName);
+  if (!graph || graph.adjacency.size === 0) return null;
+
+  const start = locateOnGraph(graph, from);
+  const end = locateOnGraph(graph, to);
+  if (!start || !end) return null;
+
+  // Both points on the same stretch
+  if (start.edge === end.edge) {
+    const path = sliceEdge(start.edge, start.along, end.along);
+    return path.length >= 2 ? path : null;
+  }
+
+  // Leave the start stretch by either end, enter the end stretch by either end
+  const exits = [
+    { node: start.edge.from, cost: start.along, lead: sliceEdge(start.edge, start.along, 0) },
+    { node: start.edge.to, cost: start.edge.length - start.along, lead: sliceEdge(start.edge, start.along, start.edge.length) },
+  ];
+  const entries = [
+    { node: end.edge.from, cost: end.along, tail: sliceEdge(end.edge, 0, end.along) },
+    { node: end.edge.to, cost: end.edge.length - end.along, tail: sliceEdge(end.edge, end.edge.length, end.along) },
+  ];
+
+  let best: Position[] | null = null;
+  let bestCost = Infinity;
+
+  for (const exit of exits) {
+    const { dist, via } = cachedShortestPaths(graph, exit.node);
+    for (const entry of entries) {
+      const middle = dist.get(entry.node);
+      if (middle === undefined) continue;
+
+      const cost = exit.cost + middle + entry.cost;
+      if (cost >= bestCost) continue;
+
+      const edges = edgesTo(via, exit.node, entry.node);
+      if (!edges) continue;
+
+      bestCost = cost;
+      best = [...exit.lead, ...joinEdges(edges), ...entry.tail];
+    }
   }
 
-  if (totalLength === 0) return [path[0][0], path[0][1]];
+  return best && best.length >= 2 ? best : null;
+}
 
-  // Find position at progress
-  const targetDist = progress * totalLength;
-  let currentDist = 0;
+// Every segment of a line's geometry in the order the map draws it, which is
+// the way its line-offset is measured from. Vertices are numbered by
+// coordinate and a segment is stored as from * VERTEX_LIMIT + to, so looking
+// a path up doesn't build a string per point.
+interface DrawnSegments {
+  vertexIds: Map<number, Map<number, number>>; // lng -> lat -> id
+  segments: Set<number>;
+}
 
-  for (let i = 0; i < segmentLengths.length; i++) {
-    const segLen = segmentLengths[i];
+const VERTEX_LIMIT = 1_000_000;
 
-    if (currentDist + segLen >= targetDist) {
-      // Interpolate within this segment
-      const segProgress = (targetDist - currentDist) / segLen;
-      const p1 = path[i];
-      const p2 = path[i + 1];
+const drawnSegments = new Map<string, DrawnSegments>();
 
-      return [
-        p1[0] + (p2[0] - p1[0]) * segProgress,
-        p1[1] + (p2[1] - p1[1]) * segProgress,
-      ];
+function vertexId(vertexIds: DrawnSegments['vertexIds'], point: Position): number | undefined {
+  return vertexIds.get(point[0])?.get(point[1]);
+}
+
+function drawnSegmentsFor(lineName: string): DrawnSegments {
+  const geometryName = getGeometryLineName(lineName);
+  let drawn = drawnSegments.get(geometryName);
+  if (!drawn) {
+    const vertexIds: DrawnSegments['vertexIds'] = new Map();
+    let nextId = 0;
+    const idOf = (point: Position) => {
+      let lats = vertexIds.get(point[0]);
+      if (!lats) vertexIds.set(point[0], (lats = new Map()));
+      let id = lats.get(point[1]);
+      if (id === undefined) lats.set(point[1], (id = nextId++));
+      return id;
+    };
+
+    drawn = { vertexIds, segments: new Set() };
+    for (const feature of (linesData as FeatureCollection<LineString>).features) {
+      const lines: LineProperties[] = feature.properties?.lines || [];
+      if (!lines.some((line) => line.name === geometryName)) continue;
+      const coords = feature.geometry?.coordinates || [];
+      for (let i = 1; i < coords.length; i++) {
+        drawn.segments.add(idOf(coords[i - 1]) * VERTEX_LIMIT + idOf(coords[i]));
+      }
     }
+    drawnSegments.set(geometryName, drawn);
+  }
+  return drawn;
+}
 
-    currentDist += segLen;
+// For each segment of a path along a line: 1 if the map draws that track the
+// same way, -1 if the other way. Pieces cut off mid-segment (the ends of a
+// track path) aren't in the geometry and take their neighbour's direction;
+// 0 only where no segment matches at all.
+export function getDrawnDirections(path: Position[], lineName: string): Int8Array {
+  const { vertexIds, segments } = drawnSegmentsFor(lineName);
+  const directions = new Int8Array(Math.max(path.length - 1, 0));
+  const ids = path.map((point) => vertexId(vertexIds, point));
+
+  for (let i = 0; i < directions.length; i++) {
+    const from = ids[i];
+    const to = ids[i + 1];
+    if (from === undefined || to === undefined) continue;
+    if (segments.has(from * VERTEX_LIMIT + to)) directions[i] = 1;
+    else if (segments.has(to * VERTEX_LIMIT + from)) directions[i] = -1;
+  }
+
+  // Spread known directions into the gaps, forwards then backwards
+  for (let i = 1; i < directions.length; i++) {
+    if (directions[i] === 0) directions[i] = directions[i - 1];
+  }
+  for (let i = directions.length - 2; i >= 0; i--) {
+    if (directions[i] === 0) directions[i] = directions[i + 1];
   }
+  return directions;
+}
+
+// A path with the distance (metres) from its start to each point, so points
+// along it can be found without measuring it again
+export interface MeasuredPath {
+  path: Position[];
+  distances: number[];
+  length: number;
+}
 
-  // Fallback to end
-  return [path[path.length - 1][0], path[path.length - 1][1]];
+export function measurePath(path: Position[]): MeasuredPath {
+  const distances = [0];
+  for (let i = 1; i < path.length; i++) {
+    distances.push(distances[i - 1] + haversineMeters(path[i - 1], path[i]));
+  }
+  return { path, distances, length: distances[distances.length - 1] };
 }
 
-// Map line IDs to display names for lookup
-const LINE_ID_TO_NAME: Record<string, string> = {
-  'bakerloo': 'Bakerloo',
-  'central': 'Central',
-  'circle': 'Circle',
-  'district': 'District',
-  'hammersmith-city': 'Hammersmith & City',
-  'jubilee': 'Jubilee',
-  'metropolitan': 'Metropolitan',
-  'northern': 'Northern',
-  'piccadilly': 'Piccadilly',
-  'victoria': 'Victoria',
-  'waterloo-city': 'Waterloo & City',
-};
+// Index of the segment (path[i] to path[i + 1]) holding the point at
+// `progress` of the way along; 0 for paths too short to have one
+export function segmentAlongPath({ path, distances, length }: MeasuredPath, progress: number): number {
+  if (path.length < 2 || progress <= 0 || length === 0) return 0;
+  if (progress >= 1) return path.length - 2;
+
+  // First segment reaching the target distance
+  const targetDist = progress * length;
+  let low = 1;
+  let high = path.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (distances[mid] >= targetDist) high = mid;
+    else low = mid + 1;
+  }
+  return low - 1;
+}
+
+// Position at `progress` (0 to 1) of the way along a measured path
+export function pointAlongPath(measured: MeasuredPath, progress: number): [number, number] {
+  const { path, distances, length } = measured;
+  if (path.length === 0) return [0, 0];
+  if (path.length === 1) return [path[0][0], path[0][1]];
+  if (progress <= 0) return [path[0][0], path[0][1]];
+  if (progress >= 1) return [path[path.length - 1][0], path[path.length - 1][1]];
+  if (length === 0) return [path[0][0], path[0][1]];
+
+  const targetDist = progress * length;
+  const segment = segmentAlongPath(measured, progress);
+  const p1 = path[segment];
+  const p2 = path[segment + 1];
+  // A zero-length segment (a repeated point) has nowhere to go along it
+  const segLength = distances[segment + 1] - distances[segment];
+  const segProgress = segLength > 0 ? (targetDist - distances[segment]) / segLength : 0;
+  return [
+    p1[0] + (p2[0] - p1[0]) * segProgress,
+    p1[1] + (p2[1] - p1[1]) * segProgress,
+  ];
+}
+
+// Interpolate position along a path
+export function interpolateAlongPath(
+  path: Position[],
+  progress: number // 0 to 1
+): [number, number] {
+  return pointAlongPath(measurePath(path), progress);
+}
+
+// [[west, south], [east, north]] covering every stretch of the given lines
+export function getLinesBounds(lineNames: string[]): [[number, number], [number, number]] | null {
+  let west = Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let north = -Infinity;
+
+  for (const lineName of lineNames) {
+    for (const edges of graphFor(lineName)?.adjacency.values() || []) {
+      for (const edge of edges) {
+        for (const [lng, lat] of edge.coordinates) {
+          west = Math.min(west, lng);
+          south = Math.min(south, lat);
+          east = Math.max(east, lng);
+          north = Math.max(north, lat);
+        }
+      }
+    }
+  }
 
-export function getLineDisplayName(lineId: string): string {
-  return LINE_ID_TO_NAME[lineId] || lineId;
+  return west === Infinity ? null : [[west, south], [east, north]];
 }
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { smoothDamp } from './trainAnimator';
+
+// Rounding slack for comparisons against the inputs
+const EPSILON = 1e-9;
+
+describe('smoothDamp', () => {
+  it('settles on the target', () => {
+    let state = { value: 0, velocity: 0 };
+    for (let frame = 0; frame < 300; frame++) {
+      state = smoothDamp(state.value, 100, state.velocity, 0.5, 1 / 60);
+    }
+    expect(state.value).toBeCloseTo(100, 3);
+    expect(state.velocity).toBeCloseTo(0, 3);
+  });
+
+  it('stays put at the target', () => {
+    expect(smoothDamp(5, 5, 0, 0.5, 1 / 60)).toEqual({ value: 5, velocity: 0 });
+  });
+
+  it('gets closer the longer the frame', () => {
+    const short = smoothDamp(0, 1, 0, 0.5, 1 / 60).value;
+    const long = smoothDamp(0, 1, 0, 0.5, 1 / 10).value;
+    expect(short).toBeGreaterThan(0);
+    expect(long).toBeGreaterThan(short);
+  });
+
+  it('never overshoots the target from rest', () => {
+    const value = fc.double({ min: -1000, max: 1000, noNaN: true });
+    fc.assert(
+      fc.property(
+        value,
+        value,
+        fc.double({ min: 0.05, max: 5, noNaN: true }),
+        fc.double({ min: 0, max: 0.1, noNaN: true }),
+        (current, target, smoothTime, deltaTime) => {
+          const { value } = smoothDamp(current, target, 0, smoothTime, deltaTime);
+          expect(value).toBeGreaterThanOrEqual(Math.min(current, target) - EPSILON);
+          expect(value).toBeLessThanOrEqual(Math.max(current, target) + EPSILON);
+        }
+      )
+    );
+  });
+
+  it('never moves away from the target it was heading for', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.double({ min: 0, max: 0.1, noNaN: true }), { minLength: 1, maxLength: 50 }),
+        (deltas) => {
+          let state = { value: 0, velocity: 0 };
+          for (const deltaTime of deltas) {
+            const next = smoothDamp(state.value, 1, state.velocity, 0.5, deltaTime);
+            expect(next.value).toBeGreaterThanOrEqual(state.value - EPSILON);
+            expect(next.value).toBeLessThanOrEqual(1);
+            state = next;
+          }
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,416 @@
+import type { Train, TrainWithPosition } from '../types/train';
+import { estimateTrainPosition, type PositionEstimate } from './positionEstimator';
+import { compareUpcomingStops, findSkippedStops } from './vehicleTracking';
+import { resolveTrainIdentities, type IncomingTrain } from './trainIdentity';
+import {
+  findTrackPath,
+  getDrawnDirections,
+  measurePath,
+  pointAlongPath,
+  segmentAlongPath,
+  type MeasuredPath,
+} from './trackGeometry';
+import { getLineDisplayName } from './lines';
+
+interface TrainKeyframe {
+  position: [number, number];
+  timestamp: number;
+}
+
+interface TrainState {
+  current: TrainKeyframe;
+  previous: TrainKeyframe | null;
+  train: Train;
+  trail: [number, number][];
+  trackPath: MeasuredPath | null; // Path along the actual track geometry
+  trackDirections: Int8Array | null; // Per trackPath segment, from getDrawnDirections
+  lastInterpolatedPosition: [number, number] | null; // Current visual position for smooth transitions
+  velocity: [number, number]; // Current velocity for momentum-based easing
+  heading: number | null; // null until the train has been seen to move
+  drawnDirection: number; // 1 moving the way the track is drawn, -1 against it, 0 unknown
+  stopsUpdatedAt: number; // When train.upcomingStops was received
+  previousStationId: string | null; // Station confirmed as just left
+  skippedStationIds: string[];
+  identityConfidence: number; // How sure the match to the previous poll was
+}
+
+// Every train's place after the last step, index for index. The arrays are
+// reused from step to step; copy anything that has to outlive a frame.
+export interface TrainFrame {
+  count: number;
+  coordinates: Float64Array; // lng, lat per train
+  headings: Float32Array; // degrees from north, NaN until the train has moved
+  drawnDirections: Int8Array; // 1 moving the way the map draws the track, -1 against it, 0 unknown
+  ids: string[]; // tracking ids
+  trains: Train[];
+}
+
+export interface TrainTrail {
+  id: string;
+  lineId: string;
+  lineName: string;
+  coordinates: [number, number][];
+  drawnDirection: number; // as in TrainFrame
+}
+
+export interface TrainAnimator {
+  // Take in a new poll (or replayed snapshot) shown at time `now`
+  update(trains: Train[], now: number): void;
+  // Move every train on to time `now`; true if any of them moved
+  step(now: number): boolean;
+  readonly frame: TrainFrame;
+  // Bumped whenever a trail gains a point or trains come and go
+  readonly trailsVersion: number;
+  getTrails(): TrainTrail[];
+  getPosition(trackingId: string): [number, number] | null;
+  // Full train objects for React, built fresh on each call
+  getPositions(): TrainWithPosition[];
+  // Called after every step
+  subscribe(listener: () => void): () => void;
+}
+
+// Smooth start with momentum preservation
+function easeInOutQuad(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
+
+// Linear interpolation
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+// Smooth damp - spring-like interpolation with velocity
+export function smoothDamp(
+  current: number,
+  target: number,
+  velocity: number,
+  smoothTime: number,
+  deltaTime: number
+): { value: number; velocity: number } {
+  // Based on Game Programming Gems 4 smooth damp
+  const omega = 2 / smoothTime;
+  const x = omega * deltaTime;
+  const exp = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+  const change = current - target;
+  const temp = (velocity + omega * change) * deltaTime;
+  const newVelocity = (velocity - omega * temp) * exp;
+  const newValue = target + (change + temp) * exp;
+
+  // Prevent overshooting
+  if ((target - current > 0) === (newValue > target)) {
+    return { value: target, velocity: 0 };
+  }
+
+  return { value: newValue, velocity: newVelocity };
+}
+
+// Bearing between two nearby points. A degree of longitude is shorter than
+// one of latitude this far north, so it's scaled down before taking the angle.
+function calculateHeading(from: [number, number], to: [number, number]): number {
+  const dLng = (to[0] - from[0]) * Math.cos((from[1] * Math.PI) / 180);
+  const dLat = to[1] - from[1];
+  const angle = Math.atan2(dLng, dLat) * (180 / Math.PI);
+  return (angle + 360) % 360;
+}
+
+const ANIMATION_DURATION = 9000; // Animate over 9 seconds (just under 10s refresh)
+const TRAIL_LENGTH = 20;
+const SMOOTH_TIME = 0.5; // Smoothing factor for velocity-based movement (seconds)
+const MAX_UPDATE_GAP = 5 * 60 * 1000; // Longer gaps (or going back in time) start afresh
+const MAX_FRAME_DELTA = 0.1; // seconds; cap delta to prevent jumps
+const INITIAL_CAPACITY = 256;
+
+// Train positions animated between polls, kept out of React: a render loop
+// calls `step` every frame and reads `frame`, while React only takes an
+// occasional `getPositions()` for panels and counts
+export function createTrainAnimator(): TrainAnimator {
+  const states = new Map<string, TrainState>();
+  const listeners = new Set<() => void>();
+  let lastUpdate = 0;
+  let lastFrameTime = 0;
+  let trailsVersion = 0;
+
+  const frame: TrainFrame = {
+    count: 0,
+    coordinates: new Float64Array(INITIAL_CAPACITY * 2),
+    headings: new Float32Array(INITIAL_CAPACITY),
+    drawnDirections: new Int8Array(INITIAL_CAPACITY),
+    ids: [],
+    trains: [],
+  };
+
+  function reserve(count: number) {
+    if (count <= frame.headings.length) return;
+    let capacity = frame.headings.length;
+    while (capacity < count) capacity *= 2;
+    frame.coordinates = new Float64Array(capacity * 2);
+    frame.headings = new Float32Array(capacity);
+    frame.drawnDirections = new Int8Array(capacity);
+  }
+
+  function update(trains: Train[], now: number) {
+    // After a seek or a switch between live and replay, earlier states say
+    // nothing about where trains are now
+    if (now < lastUpdate || now - lastUpdate > MAX_UPDATE_GAP) {
+      states.clear();
+    }
+    lastUpdate = now;
+
+    // Match arrivals to the trains already on the map. TfL vehicle ids are
+    // unreliable, so states are keyed by a synthetic tracking id instead.
+    const incoming: IncomingTrain[] = [];
+    const roughEstimates: PositionEstimate[] = [];
+    for (const train of trains) {
+      const rough = estimateTrainPosition(train);
+      if (!rough) continue;
+      incoming.push({ train, position: rough.position });
+      roughEstimates.push(rough);
+    }
+
+    const matches = resolveTrainIdentities(
+      incoming,
+      Array.from(states.entries()).map(([trackingId, state]) => ({
+        trackingId,
+        train: state.train,
+        position: state.current.position,
+        lastSeen: state.stopsUpdatedAt,
+      })),
+      now
+    );
+
+    const seenIds = new Set<string>();
+
+    incoming.forEach(({ train }, idx) => {
+      const { trackingId, confidence } = matches[idx];
+      seenIds.add(trackingId);
+      const existing = states.get(trackingId);
+
+      // Work out from the stop list which station the train just left and
+      // which stops it has dropped
+      let departedStationId: string | null = null;
+      let skippedStationIds = findSkippedStops(train.upcomingStops, train.lineName);
+      if (existing) {
+        const progress = compareUpcomingStops(
+          existing.train.upcomingStops,
+          train.upcomingStops,
+          (now - existing.stopsUpdatedAt) / 1000
+        );
+        departedStationId = progress.departedStationId
+          || (existing.train.naptanId === train.naptanId ? existing.previousStationId : null);
+        skippedStationIds = [...new Set([...skippedStationIds, ...progress.skippedStationIds])];
+      }
+
+      // Place the train between stations rather than at the one it's heading
+      // to. The rough estimate already did, unless the stop list says it
+      // left somewhere other than where the estimate assumed.
+      const rough = roughEstimates[idx];
+      const estimate = !departedStationId || departedStationId === rough.previousStationId
+        ? rough
+        : estimateTrainPosition(train, departedStationId);
+      if (!estimate) return;
+      const coords = estimate.position;
+      const tracking = {
+        stopsUpdatedAt: now,
+        previousStationId: estimate.previousStationId,
+        skippedStationIds,
+        identityConfidence: confidence,
+      };
+
+      if (existing) {
+        // Only update if station changed or it's a new position
+        const posChanged =
+          coords[0] !== existing.current.position[0] ||
+          coords[1] !== existing.current.position[1];
+
+        if (posChanged) {
+          // Use the current interpolated position as starting point for smooth transition
+          // This prevents the train from jumping back to the previous station
+          const startPosition = existing.lastInterpolatedPosition || existing.current.position;
+
+          // Find the track path between current visual position and new station
+          const lineName = getLineDisplayName(train.lineId);
+          const trackPath = findTrackPath(startPosition, coords, lineName);
+          const hasTrack = !!trackPath && trackPath.length >= 2;
+
+          states.set(trackingId, {
+            previous: { position: startPosition, timestamp: existing.current.timestamp },
+            current: { position: coords, timestamp: now },
+            train,
+            trail: existing.trail,
+            trackPath: hasTrack ? measurePath(trackPath) : null,
+            trackDirections: hasTrack ? getDrawnDirections(trackPath, lineName) : null,
+            lastInterpolatedPosition: startPosition,
+            velocity: existing.velocity, // Preserve momentum
+            heading: existing.heading,
+            drawnDirection: existing.drawnDirection,
+            ...tracking,
+          });
+        } else {
+          // Same position, just update train data
+          existing.train = train;
+          Object.assign(existing, tracking);
+        }
+      } else {
+        // New train
+        states.set(trackingId, {
+          previous: null,
+          current: { position: coords, timestamp: now },
+          train,
+          trail: [coords],
+          trackPath: null,
+          trackDirections: null,
+          lastInterpolatedPosition: coords,
+          velocity: [0, 0],
+          heading: null,
+          drawnDirection: 0,
+          ...tracking,
+        });
+      }
+    });
+
+    // Remove stale trains
+    for (const id of states.keys()) {
+      if (!seenIds.has(id)) states.delete(id);
+    }
+    trailsVersion++;
+  }
+
+  // Where a train should be at `now`; also turns it to face along its path
+  function target(state: TrainState, previous: TrainKeyframe, now: number): [number, number] {
+    const { current, trackPath, trackDirections } = state;
+
+    // Calculate animation progress
+    const elapsed = now - current.timestamp;
+    const progress = easeInOutQuad(Math.min(elapsed / ANIMATION_DURATION, 1));
+
+    if (trackPath) {
+      // Calculate heading from nearby points on the path
+      const prevPos = pointAlongPath(trackPath, Math.max(0, progress - 0.05));
+      const nextPos = pointAlongPath(trackPath, Math.min(1, progress + 0.05));
+      state.heading = calculateHeading(prevPos, nextPos);
+      state.drawnDirection = trackDirections?.[segmentAlongPath(trackPath, progress)] ?? 0;
+
+      // Target is along the actual track geometry
+      return pointAlongPath(trackPath, progress);
+    }
+
+    // Fallback to straight line
+    if (previous.position[0] !== current.position[0] || previous.position[1] !== current.position[1]) {
+      state.heading = calculateHeading(previous.position, current.position);
+    }
+    state.drawnDirection = 0;
+    return [
+      lerp(previous.position[0], current.position[0], progress),
+      lerp(previous.position[1], current.position[1], progress),
+    ];
+  }
+
+  function step(now: number): boolean {
+    const deltaTime = Math.min(Math.max((now - lastFrameTime) / 1000, 0), MAX_FRAME_DELTA);
+    lastFrameTime = now;
+
+    reserve(states.size);
+    let moved = false;
+    let i = 0;
+
+    for (const [trackingId, state] of states) {
+      const { previous, velocity } = state;
+      let position: [number, number];
+
+      if (previous) {
+        const targetPosition = target(state, previous, now);
+
+        // Apply velocity-based smooth damping for fluid motion
+        const currentPos = state.lastInterpolatedPosition || previous.position;
+        const smoothX = smoothDamp(currentPos[0], targetPosition[0], velocity[0], SMOOTH_TIME, deltaTime);
+        const smoothY = smoothDamp(currentPos[1], targetPosition[1], velocity[1], SMOOTH_TIME, deltaTime);
+
+        position = [smoothX.value, smoothY.value];
+        state.velocity = [smoothX.velocity, smoothY.velocity];
+        moved ||= position[0] !== currentPos[0] || position[1] !== currentPos[1];
+
+        // Store current position for smooth transitions when new data arrives
+        state.lastInterpolatedPosition = position;
+
+        // Update trail
+        const lastTrailPos = state.trail[state.trail.length - 1];
+        const dist = Math.abs(position[0] - lastTrailPos[0]) + Math.abs(position[1] - lastTrailPos[1]);
+        if (dist > 0.00003) {
+          state.trail = [...state.trail, position].slice(-TRAIL_LENGTH);
+          trailsVersion++;
+        }
+      } else {
+        // New train, no animation yet
+        position = state.current.position;
+        state.lastInterpolatedPosition = position;
+        state.velocity = [0, 0];
+      }
+
+      frame.coordinates[i * 2] = position[0];
+      frame.coordinates[i * 2 + 1] = position[1];
+      frame.headings[i] = state.heading ?? NaN;
+      frame.drawnDirections[i] = state.drawnDirection;
+      frame.ids[i] = trackingId;
+      frame.trains[i] = state.train;
+      i++;
+    }
+
+    moved ||= frame.count !== i;
+    frame.count = i;
+    frame.ids.length = i;
+    frame.trains.length = i;
+
+    for (const listener of listeners) listener();
+    return moved;
+  }
+
+  return {
+    update,
+    step,
+    frame,
+
+    get trailsVersion() {
+      return trailsVersion;
+    },
+
+    getTrails() {
+      const trails: TrainTrail[] = [];
+      states.forEach((state, id) => {
+        if (state.trail.length > 2) {
+          trails.push({
+            id,
+            lineId: state.train.lineId,
+            lineName: state.train.lineName,
+            coordinates: state.trail,
+            drawnDirection: state.drawnDirection,
+          });
+        }
+      });
+      return trails;
+    },
+
+    getPosition(trackingId) {
+      const state = states.get(trackingId);
+      return state ? state.lastInterpolatedPosition || state.current.position : null;
+    },
+
+    getPositions() {
+      return Array.from(states, ([trackingId, state]) => ({
+        ...state.train,
+        position: state.lastInterpolatedPosition || state.current.position,
+        heading: state.heading,
+        previousStationId: state.previousStationId,
+        skippedStationIds: state.skippedStationIds,
+        trackingId,
+        identityConfidence: state.identityConfidence,
+      }));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import type { Train } from '../types/train';
+import { haversineMeters } from './geo';
+
+// A train already being tracked, as last seen
+export interface TrackedTrain {
+  trackingId: string;
+  train: Train;
+  position: [number, number];
+  lastSeen: number;
+}
+
+// An arrival-derived train from the latest poll, with its estimated position
+export interface IncomingTrain {
+  train: Train;
+  position: [number, number];
+}
+
+export interface IdentityMatch {
+  trackingId: string;
+  confidence: number; // 0-1, how sure we are this is the same train as before
+  isNew: boolean;
+}
+
+// Lines that share track and rolling stock; a train can change between them
+// mid-journey (e.g. a Circle train continuing as a Hammersmith & City)
+const SHARED_TRACK_LINES = ['circle', 'district', 'hammersmith-city', 'metropolitan'];
+
+// Vehicle ids TfL uses when it doesn't know which train it is
+const PLACEHOLDER_VEHICLE_IDS = new Set(['', '0', '00', '000']);
+
+const MAX_TRAIN_SPEED = 25; // metres per second, generous for the Underground
+const POSITION_SLACK = 400; // metres, estimates wobble between polls
+const MIN_MATCH_SCORE = 0.45;
+const METRES_PER_DEGREE = 111195; // of latitude
+
+// Relative weight of each kind of evidence when scoring a match
+const WEIGHTS = {
+  position: 0.45,
+  vehicle: 0.25,
+  destination: 0.2,
+  direction: 0.1,
+};
+
+let nextTrackingId = 1;
+
+function createTrackingId(): string {
+  return `train-${(nextTrackingId++).toString(36)}`;
+}
+
+export function isPlaceholderVehicle(vehicleId: string): boolean {
+  return PLACEHOLDER_VEHICLE_IDS.has(vehicleId.trim());
+}
+
+// Trains can only be matched within the same group: their own line, or the
+// lines they share track with
+function lineGroup(lineId: string): string {
+  return SHARED_TRACK_LINES.includes(lineId) ? SHARED_TRACK_LINES.join() : lineId;
+}
+
+// Score how likely an incoming train is a continuation of a tracked one
+function scoreMatch(tracked: TrackedTrain, incoming: IncomingTrain, now: number): number {
+  // Position continuity: the train can't have moved further than it could run
+  const elapsed = Math.max(0, (now - tracked.lastSeen) / 1000);
+  const reach = MAX_TRAIN_SPEED * elapsed + POSITION_SLACK;
+  // Latitude alone rules most pairs out without the full distance
+  if (Math.abs(tracked.position[1] - incoming.position[1]) * METRES_PER_DEGREE > reach) return 0;
+  const moved = haversineMeters(tracked.position, incoming.position);
+  if (moved > reach) return 0;
+  const positionScore = 1 - moved / reach;
+
+  const vehicleId = incoming.train.vehicleId;
+  const vehicleScore = !isPlaceholderVehicle(vehicleId) && vehicleId === tracked.train.vehicleId ? 1 : 0;
+  const destinationScore = incoming.train.destination === tracked.train.destination ? 1 : 0;
+  const directionScore = incoming.train.direction === tracked.train.direction ? 1 : 0;
+
+  const lineScore = incoming.train.lineId === tracked.train.lineId ? 1 : 0.8;
+
+  return lineScore * (
+    WEIGHTS.position * positionScore +
+    WEIGHTS.vehicle * vehicleScore +
+    WEIGHTS.destination * destinationScore +
+    WEIGHTS.direction * directionScore
+  );
+}
+
+// Match incoming trains to tracked ones by position continuity, destination
+// and direction rather than trusting TfL's vehicle ids, which are often
+// placeholders or reused across lines. Best-scoring pairs are taken first;
+// anything left unmatched gets a fresh synthetic id.
+export function resolveTrainIdentities(
+  incoming: IncomingTrain[],
+  tracked: TrackedTrain[],
+  now: number
+): IdentityMatch[] {
+  const candidates: Array<{ incomingIdx: number; trackedIdx: number; score: number }> = [];
+
+  // Only score pairs that could be the same train, not every pair on the network
+  const trackedByGroup = new Map<string, number[]>();
+  tracked.forEach((existing, trackedIdx) => {
+    const group = lineGroup(existing.train.lineId);
+    const indices = trackedByGroup.get(group);
+    if (indices) indices.push(trackedIdx);
+    else trackedByGroup.set(group, [trackedIdx]);
+  });
+
+  incoming.forEach((train, incomingIdx) => {
+    for (const trackedIdx of trackedByGroup.get(lineGroup(train.train.lineId)) || []) {
+      const score = scoreMatch(tracked[trackedIdx], train, now);
+      if (score >= MIN_MATCH_SCORE) {
+        candidates.push({ incomingIdx, trackedIdx, score });
+      }
+    }
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matches: Array<IdentityMatch | null> = incoming.map(() => null);
+  const claimed = new Set<number>();
+
+  for (const { incomingIdx, trackedIdx, score } of candidates) {
+    if (matches[incomingIdx] || claimed.has(trackedIdx)) continue;
+    claimed.add(trackedIdx);
+    matches[incomingIdx] = {
+      trackingId: tracked[trackedIdx].trackingId,
+      confidence: Math.round(score * 100) / 100,
+      isNew: false,
+    };
+  }
+
+  return matches.map((match) => match || {
+    trackingId: createTrackingId(),
+    confidence: 0,
+    isNew: true,
+  });
+}
@@ -0,0 +1,24 @@
+import type { TrainsResponse } from '../types/train';
+
+const STORAGE_KEY = 'dudewheresmytube:lastTrains';
+
+// The last full trains response, kept so a reload without signal still has
+// something to show
+export function loadLastTrains(): TrainsResponse | undefined {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return undefined;
+    const response = JSON.parse(stored) as TrainsResponse;
+    return Array.isArray(response.trains) && response.timestamp ? response : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveLastTrains(response: TrainsResponse) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(response));
+  } catch {
+    // Storage full or disabled; offline start just won't have trains
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Train, TrainsResponse } from '../types/train';
+import { applyTrainsDelta, countDown, diffTrains } from './trainsDelta';
+
+function train(id: string, timeToStation: number): Train {
+  return {
+    id,
+    lineId: 'victoria',
+    lineName: 'Victoria',
+    currentStation: 'Oxford Circus',
+    destination: 'Brixton',
+    timeToStation,
+    direction: 'outbound',
+    vehicleId: id,
+    naptanId: '940GZZLUOXC',
+    upcomingStops: [
+      { naptanId: '940GZZLUOXC', stationName: 'Oxford Circus', platformName: 'Southbound - Platform 2', timeToStation },
+      { naptanId: '940GZZLUGPK', stationName: 'Green Park', platformName: 'Southbound - Platform 2', timeToStation: timeToStation + 120 },
+    ],
+  };
+}
+
+describe('diffTrains', () => {
+  it("leaves out trains whose times have only counted down", () => {
+    const delta = diffTrains([train('201', 90)], [train('201', 78)], 10000, 10);
+
+    expect(delta.moved).toEqual([]);
+  });
+
+  it('sends trains whose times have drifted', () => {
+    const late = train('201', 120);
+    expect(diffTrains([train('201', 90)], [late], 10000, 10).moved).toEqual([late]);
+  });
+
+  it('sends trains that have moved on a station', () => {
+    const next: Train = {
+      ...countDown(train('201', 90), 10),
+      currentStation: 'Green Park',
+      naptanId: '940GZZLUGPK',
+    };
+    expect(diffTrains([train('201', 90)], [next], 10000, 10).moved).toEqual([next]);
+  });
+
+  it('tells trains that appeared from ones that went', () => {
+    const delta = diffTrains([train('201', 90)], [train('202', 30)], 10000, 10);
+
+    expect(delta.added.map((added) => added.id)).toEqual(['202']);
+    expect(delta.removed).toEqual(['201']);
+  });
+});
+
+describe('applyTrainsDelta', () => {
+  it('counts down the trains a delta leaves out', () => {
+    const response: TrainsResponse = {
+      trains: [train('201', 90), train('202', 5)],
+      timestamp: 0,
+      sequence: 1,
+      epoch: 'a',
+      cached: false,
+    };
+
+    const { trains, timestamp } = applyTrainsDelta(response, { added: [], moved: [], removed: [], timestamp: 10000 });
+
+    expect(timestamp).toBe(10000);
+    expect(trains.map((train) => train.upcomingStops.map((stop) => stop.timeToStation))).toEqual([[80, 200], [0, 115]]);
+  });
+});
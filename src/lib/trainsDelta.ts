@@ -0,0 +1,117 @@
+import type { Train, TrainsDelta, TrainsPatch, TrainsResponse } from '../types/train';
+
+// Seconds a train's predictions can drift from counting down on their own
+// before it's worth sending the train again
+const PREDICTION_TOLERANCE = 15;
+
+// A train's predictions as they'd read `seconds` later, had nothing changed
+export function countDown(train: Train, seconds: number): Train {
+  if (seconds <= 0) return train;
+  const tick = (time: number) => Math.max(0, time - seconds);
+  return {
+    ...train,
+    timeToStation: tick(train.timeToStation),
+    upcomingStops: train.upcomingStops.map((stop) => ({ ...stop, timeToStation: tick(stop.timeToStation) })),
+  };
+}
+
+// Everything about a train but its times: where it is, where it's going and
+// the stops on the way
+function routeOf(train: Train): string {
+  return JSON.stringify([
+    train.lineId,
+    train.lineName,
+    train.currentStation,
+    train.naptanId,
+    train.destination,
+    train.direction,
+    train.vehicleId,
+    train.upcomingStops.map((stop) => [stop.naptanId, stop.stationName, stop.platformName]),
+  ]);
+}
+
+// Times change every poll, so a train only counts as moved when its route
+// does or its times have drifted from counting down
+function hasMoved(old: Train, train: Train, elapsed: number): boolean {
+  if (routeOf(old) !== routeOf(train)) return true;
+
+  const expected = countDown(old, elapsed);
+  return Math.abs(expected.timeToStation - train.timeToStation) > PREDICTION_TOLERANCE
+    || expected.upcomingStops.some((stop, i) => Math.abs(stop.timeToStation - train.upcomingStops[i].timeToStation) > PREDICTION_TOLERANCE);
+}
+
+// Work out what changed between two lists of trains, `elapsed` seconds apart
+export function diffTrains(previous: Train[], next: Train[], timestamp: number, elapsed = 0): TrainsDelta {
+  const before = new Map(previous.map((train) => [train.id, train]));
+  const added: Train[] = [];
+  const moved: Train[] = [];
+
+  for (const train of next) {
+    const old = before.get(train.id);
+    if (!old) {
+      added.push(train);
+    } else if (hasMoved(old, train, elapsed)) {
+      moved.push(train);
+    }
+    before.delete(train.id);
+  }
+
+  return { added, moved, removed: Array.from(before.keys()), timestamp };
+}
+
+export function isEmptyDelta(delta: TrainsDelta): boolean {
+  return delta.added.length === 0 && delta.moved.length === 0 && delta.removed.length === 0;
+}
+
+// Apply a delta to a full response, keeping the existing order where possible.
+// Trains the delta leaves out have only counted down since.
+export function applyTrainsDelta(response: TrainsResponse, delta: TrainsDelta): TrainsResponse {
+  const removed = new Set(delta.removed);
+  const changed = new Map(delta.moved.map((train) => [train.id, train]));
+  const elapsed = (delta.timestamp - response.timestamp) / 1000;
+
+  const trains = response.trains
+    .filter((train) => !removed.has(train.id))
+    .map((train) => changed.get(train.id) || countDown(train, elapsed));
+
+  const known = new Set(trains.map((train) => train.id));
+  for (const train of delta.added) {
+    if (!known.has(train.id)) trains.push(train);
+  }
+
+  return {
+    ...response,
+    trains,
+    timestamp: delta.timestamp,
+    cached: false,
+    count: trains.length,
+  };
+}
+
+// The `since` parameter for asking what changed after this response
+export function trainsCursor(response: TrainsResponse): string {
+  return `${response.epoch}:${response.sequence}`;
+}
+
+export function isTrainsPatch(body: TrainsResponse | TrainsPatch): body is TrainsPatch {
+  return 'since' in body;
+}
+
+// Reducer for the client's trains cache. Full responses replace it; patches
+// apply only on top of the sequence they were computed from, by the same
+// server instance, otherwise the current state is returned untouched and the
+// caller should fetch in full.
+export function reduceTrains(
+  current: TrainsResponse | undefined,
+  update: TrainsResponse | TrainsPatch
+): TrainsResponse | undefined {
+  if (!isTrainsPatch(update)) return update;
+  if (!current || current.epoch !== update.epoch || current.sequence !== update.since) return current;
+
+  return {
+    ...applyTrainsDelta(current, update),
+    sequence: update.sequence,
+    cached: update.cached,
+    lines: update.lines ?? current.lines,
+  };
+}
@@ -0,0 +1,23 @@
+// Small helpers for keeping shareable view state in the query string.
+// Uses replaceState so toggling UI doesn't flood the back button.
+
+export function getSearchParam(name: string): string | null {
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+export function setSearchParams(updates: Record<string, string | null>) {
+  const params = new URLSearchParams(window.location.search);
+
+  for (const [name, value] of Object.entries(updates)) {
+    if (value === null || value === '') {
+      params.delete(name);
+    } else {
+      params.set(name, value);
+    }
+  }
+
+  // Keep commas readable in shared links (?lines=victoria,jubilee)
+  const query = params.toString().replace(/%2C/gi, ',');
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  window.history.replaceState(window.history.state, '', url);
+}
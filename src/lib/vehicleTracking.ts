@@ -0,0 +1,51 @@
+import type { UpcomingStop } from '../types/train';
+import { findStationRoute } from './trackGeometry';
+
+export interface StopProgress {
+  departedStationId: string | null; // station the train has just left
+  skippedStationIds: string[]; // stops dropped from the list before they were due
+}
+
+// Seconds of slack before a vanished stop counts as skipped rather than served
+const DEPARTURE_TOLERANCE = 30;
+
+// Compare a vehicle's upcoming stops across two polls. Stops that drop off
+// the front of the list once they were due have been served; the latest of
+// those is the one just left. Stops that vanish while still well ahead are
+// being skipped.
+export function compareUpcomingStops(
+  previous: UpcomingStop[],
+  current: UpcomingStop[],
+  elapsedSeconds: number
+): StopProgress {
+  const remaining = new Set(current.map((stop) => stop.naptanId));
+  let departedStationId: string | null = null;
+  const skippedStationIds: string[] = [];
+
+  for (const stop of previous) {
+    if (!stop.naptanId || remaining.has(stop.naptanId)) continue;
+
+    if (stop.timeToStation <= elapsedSeconds + DEPARTURE_TOLERANCE) {
+      departedStationId = stop.naptanId;
+    } else {
+      skippedStationIds.push(stop.naptanId);
+    }
+  }
+
+  return { departedStationId, skippedStationIds };
+}
+
+// Stations between consecutive predicted stops that the train will run
+// through without calling at, e.g. fast Metropolitan services
+export function findSkippedStops(stops: UpcomingStop[], lineName: string): string[] {
+  const skipped: string[] = [];
+
+  for (let i = 1; i < stops.length; i++) {
+    const route = findStationRoute(stops[i - 1].naptanId, stops[i].naptanId, lineName);
+    if (route && route.length > 2) {
+      skipped.push(...route.slice(1, -1));
+    }
+  }
+
+  return skipped;
+}
@@ -0,0 +1,19 @@
+import type { TrainsResponse } from './train';
+
+// Read side of a recording: snapshot timestamps, then snapshots one at a time
+// (a recording is far too big to hold in memory whole)
+export interface RecordingSource {
+  timestamps(): Promise<number[]>; // ascending
+  get(timestamp: number): Promise<TrainsResponse | null>;
+}
+
+// Where the recorder keeps snapshots: IndexedDB in the browser, files on the
+// dev server
+export interface RecordingStore extends RecordingSource {
+  add(snapshot: TrainsResponse): Promise<void>;
+}
+
+// GET /api/recordings
+export interface RecordingIndex {
+  timestamps: number[];
+}
@@ -0,0 +1,38 @@
+// Normalised TfL line status, shared by /api/status and the client
+
+export type StatusSeverity =
+  | 'good'
+  | 'info' // information only, service unaffected
+  | 'minor' // minor delays, reduced service
+  | 'severe' // severe delays
+  | 'partial' // part suspended / part closed, see affectedStretches
+  | 'suspended'
+  | 'closed';
+
+export interface AffectedStretch {
+  fromStationId: string;
+  fromStationName: string;
+  toStationId: string;
+  toStationName: string;
+}
+
+export interface LineDisruption {
+  severity: StatusSeverity;
+  severityCode: number; // TfL statusSeverity
+  description: string; // e.g. "Part Suspended"
+  reason: string | null;
+  affectedStretches: AffectedStretch[];
+}
+
+export interface LineStatus {
+  lineId: string;
+  lineName: string;
+  severity: StatusSeverity; // worst of disruptions
+  disruptions: LineDisruption[];
+}
+
+export interface LineStatusResponse {
+  statuses: LineStatus[];
+  timestamp: number;
+  error?: string;
+}
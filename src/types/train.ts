@@ -8,17 +8,65 @@ export interface Train {
   direction: string;
   vehicleId: string;
   naptanId: string;
+  upcomingStops: UpcomingStop[]; // ordered by timeToStation, first is currentStation
+}
+
+export interface UpcomingStop {
+  naptanId: string;
+  stationName: string;
+  platformName: string; // e.g. "Northbound - Platform 1"
+  timeToStation: number; // seconds
 }
 
 export interface TrainWithPosition extends Train {
   position: [number, number]; // [lng, lat]
-  heading: number; // degrees from north
+  heading: number | null; // degrees from north, null until the train has moved
+  previousStationId: string | null; // station the train last left
+  skippedStationIds: string[]; // stations on the route it won't call at
+  trackingId: string; // stable across polls, unlike id/vehicleId
+  identityConfidence: number; // 0-1 confidence in the match to the last poll
+}
+
+// How the last fetch of one line's arrivals went. Lines that couldn't be
+// fetched keep their last trains, moved on by their predictions, as `stale`.
+export type LineFeedStatus =
+  | 'ok'
+  | 'error' // TfL answered with an error, or not at all, after retries
+  | 'rate-limited' // no request budget left this round
+  | 'circuit-open'; // failing repeatedly, left alone for a while
+
+export interface LineFeed {
+  ok: boolean;
+  status: LineFeedStatus;
+  fetchedAt: number | null; // last successful fetch, null if never
+  stale: boolean;
 }
 
 export interface TrainsResponse {
   trains: Train[];
   timestamp: number;
+  sequence: number; // version of the trains list, bumps whenever it changes
+  epoch: string; // server instance that numbered `sequence`; another's numbers don't compare
   cached: boolean;
   count?: number;
   error?: string;
+  lines?: Record<string, LineFeed>; // by line id
+}
+
+// Changes between two snapshots of the trains feed
+export interface TrainsDelta {
+  added: Train[];
+  moved: Train[]; // trains whose data changed (position, ETAs, destination...)
+  removed: string[]; // train ids
+  timestamp: number;
+}
+
+// Returned by /api/trains?since=<epoch>:N: only what changed since sequence N
+// of the same server instance
+export interface TrainsPatch extends TrainsDelta {
+  sequence: number;
+  since: number;
+  epoch: string;
+  cached: boolean;
+  lines?: Record<string, LineFeed>;
 }
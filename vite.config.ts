@@ -1,151 +1,153 @@
 import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
-
-// TfL line IDs for Underground (used in Unified API)
-const LINE_IDS = [
-  'bakerloo',
-  'central',
-  'circle',
-  'district',
-  'hammersmith-city',
-  'jubilee',
-  'metropolitan',
-  'northern',
-  'piccadilly',
-  'victoria',
-  'waterloo-city',
-] as const;
-
-const LINE_DISPLAY_NAMES: Record<string, string> = {
-  'bakerloo': 'Bakerloo',
-  'central': 'Central',
-  'circle': 'Circle',
-  'district': 'District',
-  'hammersmith-city': 'Hammersmith & City',
-  'jubilee': 'Jubilee',
-  'metropolitan': 'Metropolitan',
-  'northern': 'Northern',
-  'piccadilly': 'Piccadilly',
-  'victoria': 'Victoria',
-  'waterloo-city': 'Waterloo & City',
-};
-
-interface Train {
-  id: string;
-  lineId: string;
-  lineName: string;
-  currentStation: string;
-  destination: string;
-  timeToStation: number;
-  direction: string;
-  vehicleId: string;
-  naptanId: string;
-}
-
-// Simple cache
-let cache: { data: Train[]; timestamp: number } | null = null;
-const CACHE_TTL = 10000; // 10 seconds cache
-
-interface TflArrival {
-  id: string;
-  vehicleId: string;
-  naptanId: string;
-  stationName: string;
-  lineId: string;
-  lineName: string;
-  platformName: string;
-  direction: string;
-  destinationName: string;
-  timeToStation: number;
-}
-
-async function fetchLineData(lineId: string): Promise<Train[]> {
-  // Unified API works without authentication (50 req/min limit)
-  const url = `https://api.tfl.gov.uk/Line/${lineId}/Arrivals`;
-
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.error(`Failed to fetch line ${lineId}: ${response.status}`);
-      return [];
-    }
-
-    const arrivals = await response.json() as TflArrival[];
-    const trains: Train[] = [];
-    const seenVehicles = new Set<string>();
-
-    for (const arrival of arrivals) {
-      // Only include each vehicle once (closest arrival)
-      if (seenVehicles.has(arrival.vehicleId)) continue;
-      seenVehicles.add(arrival.vehicleId);
-
-      // Only include trains arriving within 5 minutes
-      if (arrival.timeToStation > 300) continue;
-
-      trains.push({
-        id: `${lineId}-${arrival.vehicleId}`,
-        lineId: lineId,
-        lineName: LINE_DISPLAY_NAMES[lineId] || arrival.lineName,
-        currentStation: (arrival.stationName || 'Unknown').replace(' Underground Station', ''),
-        destination: (arrival.destinationName || 'Unknown').replace(' Underground Station', ''),
-        timeToStation: arrival.timeToStation,
-        direction: arrival.direction || '',
-        vehicleId: arrival.vehicleId,
-        naptanId: arrival.naptanId || '',
-      });
-    }
-
-    return trains;
-  } catch (error) {
-    console.error(`Error fetching line ${lineId}:`, error);
-    return [];
-  }
-}
-
-// Vite plugin to handle /api/trains locally
+import { getTflClient } from './api/_lib/tflClient'
+import { fetchLineStatuses } from './api/_lib/lineStatus'
+import { createTrainsService, parseSince } from './api/_lib/trains'
+import { createTrainStream, serveTrainStream } from './api/_lib/trainStream'
+import { createFileRecordingStore, recordTrains } from './api/_lib/recordingStore'
+import { createPmtilesBasemap, parseTilePath } from './api/_lib/basemap'
+import { createSimulatedTflClient, createSimulator, scenarioFromEnv } from './api/_lib/simulator'
+import type { LineStatus } from './src/types/status'
+
+// Line status changes slowly, cache it for longer
+let statusCache: { data: LineStatus[]; timestamp: number } | null = null;
+const STATUS_CACHE_TTL = 60000; // 60 seconds cache
+
+// Point TFL_API_BASE_URL at a fixture server, or set TFL_SIMULATOR to run on
+// simulated trains, to develop without api.tfl.gov.uk
+const tflClient = process.env.TFL_SIMULATOR
+  ? createSimulatedTflClient(createSimulator(scenarioFromEnv(process.env.TFL_SIMULATOR)))
+  : getTflClient();
+
+// Set TFL_RECORDINGS_DIR to keep every snapshot on disk for replay
+const recordingStore = process.env.TFL_RECORDINGS_DIR
+  ? createFileRecordingStore(process.env.TFL_RECORDINGS_DIR)
+  : null;
+const trainsService = recordingStore
+  ? recordTrains(createTrainsService(tflClient), recordingStore)
+  : createTrainsService(tflClient);
+const trainStream = createTrainStream(trainsService);
+
+// Set TFL_BASEMAP_PMTILES to draw the map from a local vector extract
+// instead of CARTO's raster tiles
+const basemap = process.env.TFL_BASEMAP_PMTILES
+  ? createPmtilesBasemap(process.env.TFL_BASEMAP_PMTILES)
+  : null;
+
+// Vite plugin to handle /api routes locally
 function apiPlugin(): Plugin {
   return {
     name: 'api-plugin',
     configureServer(server) {
-      server.middlewares.use(async (req, res, next) => {
-        if (req.url !== '/api/trains') {
-          return next();
-        }
-
+      server.middlewares.use('/api/status', async (_req, res) => {
         res.setHeader('Content-Type', 'application/json');
         res.setHeader('Access-Control-Allow-Origin', '*');
 
         const now = Date.now();
 
-        // Check cache
-        if (cache && now - cache.timestamp < CACHE_TTL) {
+        if (statusCache && now - statusCache.timestamp < STATUS_CACHE_TTL) {
+          res.end(JSON.stringify({ statuses: statusCache.data, timestamp: statusCache.timestamp }));
+          return;
+        }
+
+        try {
+          const statuses = await fetchLineStatuses(tflClient);
+          statusCache = { data: statuses, timestamp: now };
+          res.end(JSON.stringify({ statuses, timestamp: now }));
+        } catch (error) {
+          console.error('Error fetching line status:', error);
+          res.statusCode = 502;
           res.end(JSON.stringify({
-            trains: cache.data,
-            timestamp: cache.timestamp,
-            cached: true,
+            statuses: [],
+            timestamp: now,
+            error: error instanceof Error ? error.message : 'Failed to fetch line status',
           }));
+        }
+      });
+
+      // Recorded snapshots: the index, or one snapshot with ?at=<timestamp>
+      server.middlewares.use('/api/recordings', async (req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+
+        if (!recordingStore) {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: 'Recording is off, set TFL_RECORDINGS_DIR' }));
+          return;
+        }
+
+        const at = Number(new URL(req.url || '/', 'http://localhost').searchParams.get('at'));
+        if (!at) {
+          res.end(JSON.stringify({ timestamps: await recordingStore.timestamps() }));
           return;
         }
 
-        console.log('Fetching train data from TfL Unified API...');
-        const results = await Promise.all(
-          LINE_IDS.map(lineId => fetchLineData(lineId))
-        );
-
-        const allTrains = results.flat();
-        const uniqueTrains = Array.from(
-          new Map(allTrains.map(t => [t.id, t])).values()
-        );
-
-        cache = { data: uniqueTrains, timestamp: now };
-        console.log(`Fetched ${uniqueTrains.length} trains`);
-
-        res.end(JSON.stringify({
-          trains: uniqueTrains,
-          timestamp: now,
-          cached: false,
-          count: uniqueTrains.length,
-        }));
+        const snapshot = await recordingStore.get(at);
+        res.statusCode = snapshot ? 200 : 404;
+        res.end(JSON.stringify(snapshot || { error: `No snapshot at ${at}` }));
+      });
+
+      // Local basemap: TileJSON at the root, tiles at /{z}/{x}/{y}.mvt
+      server.middlewares.use('/api/basemap', async (req, res) => {
+        const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+        if (!basemap) {
+          res.statusCode = 404;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: 'No local basemap, set TFL_BASEMAP_PMTILES' }));
+          return;
+        }
+
+        try {
+          if (path === '/') {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(await basemap.tileJson('/api/basemap/{z}/{x}/{y}.mvt')));
+            return;
+          }
+
+          const zxy = parseTilePath(path);
+          const tile = zxy && await basemap.tile(...zxy);
+          if (!tile) {
+            // Outside the extract: nothing to draw, not an error
+            res.statusCode = zxy ? 204 : 404;
+            res.end();
+            return;
+          }
+          res.setHeader('Content-Type', 'application/vnd.mapbox-vector-tile');
+          res.end(tile);
+        } catch (error) {
+          console.error('Error reading basemap:', error);
+          res.statusCode = 500;
+          res.end();
+        }
+      });
+
+      server.middlewares.use('/api/stream', (req, res) => {
+        serveTrainStream(trainStream, req, res);
+      });
+
+      server.middlewares.use('/api/trains', async (req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Access-Control-Allow-Origin', '*');
+
+        const since = parseSince(new URL(req.url || '/', 'http://localhost').searchParams.get('since'));
+        res.end(JSON.stringify(await trainsService.getTrains(since)));
+      });
+    },
+  };
+}
+
+// List the built files for the service worker (public/sw.js) to precache
+function precacheManifestPlugin(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter((file) => !file.endsWith('.map'));
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify(files),
       });
     },
   };
@@ -153,6 +155,6 @@ function apiPlugin(): Plugin {
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), apiPlugin()],
+  plugins: [react(), apiPlugin(), precacheManifestPlugin()],
   envPrefix: 'TFL_',
 })
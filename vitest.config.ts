@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests don't start the dev server's API
+// middleware (and its TfL polling) just to load
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.{ts,tsx}', 'api/**/*.test.ts'],
+  },
+});